@@ -1,5 +1,6 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { isSameDay, isToday, isYesterday } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -19,27 +20,114 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Menu, Search, MoreVertical, Paperclip, Send, Settings, LogOut, Users, MessageSquare, Info } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Menu, Search, MoreVertical, Paperclip, Send, Settings, LogOut, Users, MessageSquare, Info, Reply, Pencil, X, ArrowDown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useAuth } from "@/hooks/useAuth";
-import { useWebSocket } from "@/hooks/useWebSocket";
-import type { ConversationWithParticipants, MessageWithSender } from "@shared/schema";
+import { usePresence } from "@/hooks/usePresence";
+import { useTypingIndicators } from "@/hooks/useTypingIndicators";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { useMessagePages } from "@/hooks/useMessagePages";
+import { useVirtualList } from "@/hooks/useVirtualList";
+import { useOutbox } from "@/hooks/useOutbox";
+import type { OutgoingStatus } from "@/lib/outbox";
+import type { WebSocketConnection } from "@/hooks/useWebSocket";
+import { useI18n } from "@/lib/i18n";
+import type { ConversationWithParticipants, MessageWithSender, User } from "@shared/schema";
+import { MAX_ATTACHMENT_SIZE, ATTACHMENT_MIME_TYPES, isAllowedAttachmentType, formatFileSize } from "@shared/attachments";
 import MessageBubble from "./MessageBubble";
+import ParticipantsDialog from "./ParticipantsDialog";
+import GroupInfoEditor from "./GroupInfoEditor";
+import ChatSearchBar from "./ChatSearchBar";
+
+const TYPING_REFRESH_MS = 3_000;
+const TYPING_IDLE_MS = 4_000;
+// How close to the bottom still counts as reading the latest messages
+const BOTTOM_THRESHOLD_PX = 80;
+
+type MessageListRow =
+  | { type: "date"; key: string; date: Date }
+  | { type: "message"; key: string; message: MessageWithSender; status?: OutgoingStatus };
+
+// Messages with a separator before the first one of each day. Statuses mark
+// messages still on their way to the server.
+function buildMessageRows(
+  messages: MessageWithSender[],
+  statuses: Map<string, OutgoingStatus>,
+): MessageListRow[] {
+  const rows: MessageListRow[] = [];
+  let previous: Date | undefined;
+  for (const message of messages) {
+    const createdAt = new Date(message.createdAt!);
+    if (!previous || !isSameDay(previous, createdAt)) {
+      rows.push({ type: "date", key: `date-${createdAt.toDateString()}`, date: createdAt });
+    }
+    previous = createdAt;
+    rows.push({ type: "message", key: message.id, message, status: statuses.get(message.id) });
+  }
+  return rows;
+}
 
 interface ChatAreaProps {
   conversationId: string;
   onOpenSidebar: () => void;
+  onLeaveConversation: () => void;
+  socket: WebSocketConnection;
+  // Scrolled to and highlighted once messages have loaded, e.g. from search
+  focusedMessageId?: string | null;
+  onMessageFocused?: () => void;
 }
 
-export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProps) {
+export default function ChatArea({
+  conversationId,
+  onOpenSidebar,
+  onLeaveConversation,
+  socket,
+  focusedMessageId,
+  onMessageFocused,
+}: ChatAreaProps) {
   const [messageContent, setMessageContent] = useState("");
-  const [isTyping, setIsTyping] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [isLeaveConfirmOpen, setIsLeaveConfirmOpen] = useState(false);
+  const [isParticipantsOpen, setIsParticipantsOpen] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<MessageWithSender | null>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [editingMessage, setEditingMessage] = useState<MessageWithSender | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<MessageWithSender | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Message to scroll to once it is rendered, loading its history if needed
+  const [pendingFocusId, setPendingFocusId] = useState<string | null>(null);
+  // Set while showing the history around an older message instead of the latest page
+  const [aroundMessageId, setAroundMessageId] = useState<string | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchIndex, setSearchIndex] = useState(0);
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  // Mirrors isAtBottom for layout effects, which must not wait for a re-render
+  const isAtBottomRef = useRef(true);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll metrics saved before older messages are prepended
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastMarkedReadRef = useRef<string>();
+  const typingSentAtRef = useRef(0);
+  const typingIdleTimeoutRef = useRef<NodeJS.Timeout>();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { t, formatDate, formatRelative } = useI18n();
+  const { getPresence } = usePresence();
+  const { getTypingText } = useTypingIndicators();
   const queryClient = useQueryClient();
   const { data: conversationData } = useQuery<ConversationWithParticipants[]>({
     queryKey: ["/api/conversations"],
@@ -47,28 +135,120 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
 
   const conversation = conversationData?.find(c => c.id === conversationId);
 
-  const { data: messages = [], isLoading: messagesLoading, error: messagesError } = useQuery<MessageWithSender[]>({
-    queryKey: [`/api/conversations/${conversationId}/messages`],
-    enabled: !!conversationId,
+  const messagePages = useMessagePages(conversationId, aroundMessageId);
+  const { messages, isLoading: messagesLoading } = messagePages;
+  const firstMessageId = messages[0]?.id;
+
+  const { outgoing, send, retry, discard } = useOutbox(conversationId);
+
+  // Unconfirmed messages follow the latest page; one that has already
+  // arrived over the socket is shown from the cache instead
+  const rows = useMemo(() => {
+    const loadedIds = new Set(messages.map(m => m.id));
+    const unconfirmed = aroundMessageId ? [] : outgoing.filter(entry => !loadedIds.has(entry.message.id));
+    return buildMessageRows(
+      [...messages, ...unconfirmed.map(entry => entry.message)],
+      new Map(unconfirmed.map(entry => [entry.message.id, entry.status])),
+    );
+  }, [messages, outgoing, aroundMessageId]);
+  const virtualList = useVirtualList({
+    count: rows.length,
+    getKey: index => rows[index].key,
+    estimateSize: index => (rows[index].type === "date" ? 44 : 88),
+    scrollRef: messagesContainerRef,
   });
 
-  const { sendMessage: sendWebSocketMessage, isConnected } = useWebSocket(user?.id || '', conversationId);
+  const chatSearch = useMessageSearch(isSearchOpen ? searchQuery : "", conversationId);
+  const selectedSearchResult = chatSearch.results[searchIndex];
+
+  const { sendMessage: sendWebSocketMessage, isConnected } = socket;
 
-  const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
-      return apiRequest('POST', `/api/conversations/${conversationId}/messages`, { content });
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: t("auth.unauthorizedTitle"),
+        description: t("auth.unauthorizedDescription"),
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: t("common.error"),
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const sendAttachmentMutation = useMutation({
+    mutationFn: async ({ file, content, replyToId }: { file: File; content: string; replyToId?: string }) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("content", content);
+      if (replyToId) {
+        formData.append("replyToId", replyToId);
+      }
+      return apiRequest('POST', `/api/conversations/${conversationId}/attachments`, formData);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/conversations/${conversationId}/messages`] });
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
       setMessageContent("");
+      setReplyingTo(null);
+      setPendingFile(null);
+      setAroundMessageId(null);
+      followLatest();
       adjustTextareaHeight();
     },
+    onError: (error) => handleError(error, t("chat.uploadFailed")),
+  });
+
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: string; content: string }) => {
+      return apiRequest('PATCH', `/api/messages/${messageId}`, { content });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/conversations/${conversationId}/messages`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      setEditingMessage(null);
+      setMessageContent("");
+    },
+    onError: (error) => handleError(error, t("message.editFailed")),
+  });
+
+  const deleteMessageMutation = useMutation({
+    mutationFn: async (messageId: string) => {
+      return apiRequest('DELETE', `/api/messages/${messageId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/conversations/${conversationId}/messages`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      setDeletingMessage(null);
+    },
+    onError: (error) => handleError(error, t("message.deleteFailed")),
+  });
+
+  const leaveConversationMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/conversations/${conversationId}/leave`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<ConversationWithParticipants[]>(
+        ["/api/conversations"],
+        (old) => old?.filter(c => c.id !== conversationId),
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      setIsLeaveConfirmOpen(false);
+      setIsSettingsOpen(false);
+      onLeaveConversation();
+    },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
         toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
+          title: t("auth.unauthorizedTitle"),
+          description: t("auth.unauthorizedDescription"),
           variant: "destructive",
         });
         setTimeout(() => {
@@ -77,17 +257,98 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
         return;
       }
       toast({
-        title: "Error",
-        description: "Failed to send message. Please try again.",
+        title: t("common.error"),
+        description: t("leave.failed"),
         variant: "destructive",
       });
     },
   });
 
-  // Auto-scroll to bottom when new messages arrive
+  const myLastReadAt = conversation?.participants.find(p => p.userId === user?.id)?.lastReadAt;
+
+  // Mark the newest message as read while the chat is open and the tab is visible
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+    const markRead = () => {
+      const latest = messages[messages.length - 1];
+      if (!latest || document.visibilityState !== 'visible') return;
+      if (latest.id === lastMarkedReadRef.current) return;
+      if (myLastReadAt && new Date(myLastReadAt) >= new Date(latest.createdAt!)) return;
+
+      lastMarkedReadRef.current = latest.id;
+      if (isConnected) {
+        sendWebSocketMessage({ type: 'mark_read', conversationId, messageId: latest.id });
+      } else {
+        apiRequest('POST', `/api/conversations/${conversationId}/read`, { messageId: latest.id }).catch(() => {
+          lastMarkedReadRef.current = undefined;
+        });
+      }
+    };
+
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [messages, myLastReadAt, conversationId, isConnected, sendWebSocketMessage]);
+
+  // Other participants whose read pointer has reached the message
+  const getReaders = (message: MessageWithSender): User[] => {
+    if (!conversation) return [];
+    return conversation.participants
+      .filter(p => p.userId !== message.senderId && p.lastReadAt &&
+        new Date(p.lastReadAt) >= new Date(message.createdAt!))
+      .map(p => p.user);
+  };
+
+  const followLatest = () => {
+    isAtBottomRef.current = true;
+    setIsAtBottom(true);
+  };
+
+  // Stay pinned to the bottom as messages arrive and rows are measured, but
+  // only while the user is already there
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container || aroundMessageId || !isAtBottomRef.current) return;
+    container.scrollTop = container.scrollHeight;
+  }, [virtualList.totalSize, aroundMessageId]);
+
+  const jumpToLatest = () => {
+    followLatest();
+    if (aroundMessageId) {
+      setAroundMessageId(null);
+      return;
+    }
+    const container = messagesContainerRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  };
+
+  // Keep the same messages on screen when an older page is prepended
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (!container || !anchor) return;
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    scrollAnchorRef.current = null;
+  }, [firstMessageId]);
+
+  // Load more history when scrolled near either end
+  const handleMessagesScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    isAtBottomRef.current = distanceFromBottom < BOTTOM_THRESHOLD_PX;
+    setIsAtBottom(isAtBottomRef.current);
+
+    if (container.scrollTop < 200 && messagePages.hasOlder && !messagePages.isLoadingOlder) {
+      scrollAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+      messagePages.loadOlder();
+    }
+    if (aroundMessageId && distanceFromBottom < 200 && messagePages.hasNewer && !messagePages.isLoadingNewer) {
+      messagePages.loadNewer();
+    }
+  };
 
   // Auto-resize textarea
   const adjustTextareaHeight = () => {
@@ -101,59 +362,220 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
     adjustTextareaHeight();
   }, [messageContent]);
 
-  // Handle typing indicators
-  useEffect(() => {
-    let typingTimeout: NodeJS.Timeout | undefined;
-
-    if (messageContent && isConnected) {
-      if (!isTyping) {
-        setIsTyping(true);
-        sendWebSocketMessage({
-          type: 'typing',
-          conversationId,
-          isTyping: true,
-        });
-      }
+  const stopTyping = useCallback(() => {
+    clearTimeout(typingIdleTimeoutRef.current);
+    if (typingSentAtRef.current === 0) return;
+    typingSentAtRef.current = 0;
+    sendWebSocketMessage({ type: 'typing', conversationId, isTyping: false });
+  }, [conversationId, sendWebSocketMessage]);
 
-      if (typingTimeout) clearTimeout(typingTimeout);
-      typingTimeout = setTimeout(() => {
-        setIsTyping(false);
-        sendWebSocketMessage({
-          type: 'typing',
-          conversationId,
-          isTyping: false,
-        });
-      }, 1000);
+  // Announce typing on the first keystroke, refresh it while typing continues
+  // (the server expires silent typers) and stop after a pause
+  const handleTyping = () => {
+    if (!isConnected) return;
+    if (Date.now() - typingSentAtRef.current > TYPING_REFRESH_MS) {
+      typingSentAtRef.current = Date.now();
+      sendWebSocketMessage({ type: 'typing', conversationId, isTyping: true });
     }
+    clearTimeout(typingIdleTimeoutRef.current);
+    typingIdleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
 
-    return () => {
-      if (typingTimeout) clearTimeout(typingTimeout);
-    };
-  }, [messageContent, conversationId, isConnected, isTyping, sendWebSocketMessage]);
+  // Switching conversations or closing the chat ends typing in the old one
+  useEffect(() => stopTyping, [stopTyping]);
 
   const handleSendMessage = () => {
     const trimmedContent = messageContent.trim();
+    if (pendingFile) {
+      stopTyping();
+      sendAttachmentMutation.mutate({ file: pendingFile, content: trimmedContent, replyToId: replyingTo?.id });
+      return;
+    }
     if (!trimmedContent) return;
 
-    sendMessageMutation.mutate(trimmedContent);
+    stopTyping();
+    if (editingMessage) {
+      editMessageMutation.mutate({ messageId: editingMessage.id, content: trimmedContent });
+      return;
+    }
+    sendText(trimmedContent);
+  };
+
+  // Shown right away as pending and queued while offline; the id is generated
+  // here so the server can recognise a retry of the same message
+  const sendText = (content: string) => {
+    if (!user) return;
+
+    const message: MessageWithSender = {
+      id: crypto.randomUUID(),
+      conversationId,
+      senderId: user.id,
+      sender: user,
+      content,
+      type: "text",
+      metadata: null,
+      language: null,
+      replyToId: replyingTo?.id ?? null,
+      replyTo: replyingTo ? {
+        id: replyingTo.id,
+        sender: replyingTo.sender,
+        snippet: replyingTo.content || null,
+        deleted: false,
+      } : undefined,
+      editedAt: null,
+      deletedAt: null,
+      createdAt: new Date(),
+    };
+    send(message);
+
+    setMessageContent("");
+    setReplyingTo(null);
+    setAroundMessageId(null);
+    followLatest();
+    adjustTextareaHeight();
+  };
+
+  const retrySend = (message: MessageWithSender) => {
+    retry(message.id);
+  };
+
+  const discardSend = (message: MessageWithSender) => {
+    discard(message.id);
+  };
+
+  const handleReply = (message: MessageWithSender) => {
+    cancelEdit();
+    setReplyingTo(message);
+    textareaRef.current?.focus();
   };
 
+  // The file is sent with the composer text as its caption
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!isAllowedAttachmentType(file.type)) {
+      toast({
+        title: t("chat.unsupportedFileTitle"),
+        description: t("chat.unsupportedFileDescription"),
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast({
+        title: t("chat.fileTooLargeTitle"),
+        description: t("chat.fileTooLargeDescription", { size: formatFileSize(MAX_ATTACHMENT_SIZE) }),
+        variant: "destructive",
+      });
+      return;
+    }
+    setPendingFile(file);
+    textareaRef.current?.focus();
+  };
+
+  // Editing reuses the composer, prefilled with the current text
+  const handleEdit = (message: MessageWithSender) => {
+    setReplyingTo(null);
+    setPendingFile(null);
+    setEditingMessage(message);
+    setMessageContent(message.content);
+    textareaRef.current?.focus();
+  };
+
+  const cancelEdit = () => {
+    if (!editingMessage) return;
+    setEditingMessage(null);
+    setMessageContent("");
+  };
+
+  const jumpToMessage = (messageId: string) => {
+    setPendingFocusId(messageId);
+  };
+
+  // Messages opened from elsewhere, e.g. the sidebar search
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    setPendingFocusId(focusedMessageId);
+    onMessageFocused?.();
+  }, [focusedMessageId]);
+
+  // Scroll to the pending message if it is loaded; otherwise load the window
+  // of history around it first
+  useEffect(() => {
+    if (!pendingFocusId || messagesLoading) return;
+
+    const rowIndex = rows.findIndex(row => row.type === "message" && row.message.id === pendingFocusId);
+    if (rowIndex >= 0) {
+      isAtBottomRef.current = false;
+      virtualList.scrollToIndex(rowIndex, "center");
+      setHighlightedMessageId(pendingFocusId);
+      setPendingFocusId(null);
+    } else if (aroundMessageId !== pendingFocusId) {
+      setAroundMessageId(pendingFocusId);
+    } else {
+      toast({ description: t("message.messageNotLoaded") });
+      setPendingFocusId(null);
+      if (messagePages.isError) {
+        setAroundMessageId(null);
+      }
+    }
+  }, [pendingFocusId, messagesLoading, rows, aroundMessageId]);
+
+  // Each new search starts from the newest match
+  useEffect(() => {
+    setSearchIndex(0);
+  }, [chatSearch.terms.join(" ")]);
+
+  useEffect(() => {
+    if (selectedSearchResult) {
+      setPendingFocusId(selectedSearchResult.message.id);
+    }
+  }, [selectedSearchResult?.message.id]);
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setSearchQuery("");
+  };
+
+  // Fade the jump highlight after a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // A pending reply or edit, the search and any history view belong to the
+  // conversation they were started in
+  useEffect(() => {
+    setReplyingTo(null);
+    setEditingMessage(null);
+    setPendingFile(null);
+    setAroundMessageId(null);
+    followLatest();
+    closeSearch();
+  }, [conversationId]);
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
+    } else if (e.key === 'Escape') {
+      cancelEdit();
+      setReplyingTo(null);
     }
   };
 
   const getConversationName = () => {
-    if (!conversation) return "Loading...";
+    if (!conversation) return t("common.loading");
     
     if (conversation.isGroup) {
-      return conversation.name || "Unnamed Group";
+      return conversation.name || t("common.unnamedGroup");
     } else {
       const otherUser = conversation.participants?.find(p => p.userId !== user?.id)?.user;
-      if (!otherUser) return "Loading...";
-      return `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email || "Unknown User";
+      if (!otherUser) return t("common.loading");
+      return `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email || t("common.unknownUser");
     }
   };
 
@@ -161,7 +583,7 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
     if (!conversation || !conversation.participants) return null;
     
     if (conversation.isGroup) {
-      return null;
+      return conversation.avatarUrl;
     } else {
       const otherUser = conversation.participants.find(p => p.userId !== user?.id)?.user;
       return otherUser?.profileImageUrl;
@@ -183,10 +605,29 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
     }
   };
 
+  const otherParticipant = conversation && !conversation.isGroup
+    ? conversation.participants.find(p => p.userId !== user?.id)
+    : undefined;
+  const otherPresence = getPresence(otherParticipant?.userId);
+
+  const typingText = conversation ? getTypingText(conversation) : null;
+
+  const getStatusText = () => {
+    if (!conversation) return "";
+    if (typingText) return typingText;
+    if (conversation.isGroup) {
+      return t("chat.members", { count: conversation.participants.length });
+    }
+    if (otherPresence?.online) return t("chat.online");
+
+    const lastSeenAt = otherPresence?.lastSeenAt ?? otherParticipant?.user.lastSeenAt;
+    return lastSeenAt ? t("chat.lastSeen", { time: formatRelative(lastSeenAt) }) : t("chat.offline");
+  };
+
   if (!conversation && conversationData) {
     return (
       <div className="flex-1 flex items-center justify-center">
-        <div className="text-gray-500">Conversation not found</div>
+        <div className="text-gray-500">{t("chat.notFound")}</div>
       </div>
     );
   }
@@ -212,13 +653,19 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
           </Avatar>
           <div>
             <div className="font-medium text-gray-900">{getConversationName()}</div>
-            <div className="text-sm text-green-500">
-              {conversation?.isGroup ? `${conversation.participants.length} members` : "online"}
+            <div className={`text-sm ${typingText ? "text-blue-600 italic" : conversation?.isGroup || otherPresence?.online ? "text-green-500" : "text-gray-500"}`}>
+              {getStatusText()}
             </div>
           </div>
         </div>
         <div className="flex items-center space-x-2">
-          <Button variant="ghost" size="icon" className="text-gray-600">
+          <Button
+            variant="ghost"
+            size="icon"
+            className={isSearchOpen ? "text-blue-600" : "text-gray-600"}
+            onClick={() => (isSearchOpen ? closeSearch() : setIsSearchOpen(true))}
+            aria-label={t("chat.searchInConversation")}
+          >
             <Search className="w-5 h-5" />
           </Button>
           <DropdownMenu>
@@ -233,64 +680,219 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
                 className="flex items-center space-x-2"
               >
                 <Settings className="w-4 h-4" />
-                <span>채팅방 설정</span>
-              </DropdownMenuItem>
-              <DropdownMenuItem className="flex items-center space-x-2">
-                <Users className="w-4 h-4" />
-                <span>참가자 관리</span>
+                <span>{t("chatMenu.settings")}</span>
               </DropdownMenuItem>
+              {conversation?.isGroup && (
+                <DropdownMenuItem
+                  onClick={() => setIsParticipantsOpen(true)}
+                  className="flex items-center space-x-2"
+                >
+                  <Users className="w-4 h-4" />
+                  <span>{t("chatMenu.manageParticipants")}</span>
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
-              <DropdownMenuItem className="flex items-center space-x-2 text-red-600 focus:text-red-600">
+              <DropdownMenuItem
+                onClick={() => setIsLeaveConfirmOpen(true)}
+                className="flex items-center space-x-2 text-red-600 focus:text-red-600"
+              >
                 <LogOut className="w-4 h-4" />
-                <span>나가기</span>
+                <span>{t("chatMenu.leave")}</span>
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
       </div>
 
+      {isSearchOpen && (
+        <ChatSearchBar
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          resultCount={chatSearch.results.length}
+          currentIndex={searchIndex}
+          isSearching={chatSearch.isSearching}
+          hasSearched={chatSearch.isActive}
+          onOlder={() => setSearchIndex(i => Math.min(i + 1, chatSearch.results.length - 1))}
+          onNewer={() => setSearchIndex(i => Math.max(i - 1, 0))}
+          onClose={closeSearch}
+        />
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
-        {messagesLoading ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="text-gray-500">Loading messages...</div>
+      <div className="relative flex-1 flex flex-col min-h-0">
+        {messagePages.isLoadingOlder && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 px-3 py-1 rounded-full bg-white shadow text-sm text-gray-500">
+            {t("chat.loadingOlder")}
           </div>
-        ) : messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="text-center">
-              <div className="text-yellow-800 bg-yellow-50 border border-yellow-200 px-4 py-3 rounded-lg inline-flex items-center">
-                <Info className="w-4 h-4 mr-2" />
-                <span className="text-sm">Messages are end-to-end encrypted</span>
+        )}
+        <div
+          ref={messagesContainerRef}
+          className="flex-1 overflow-y-auto p-4 bg-gray-50"
+          onScroll={handleMessagesScroll}
+        >
+          {messagesLoading ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-gray-500">{t("chat.loadingMessages")}</div>
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <div className="text-yellow-800 bg-yellow-50 border border-yellow-200 px-4 py-3 rounded-lg inline-flex items-center">
+                  <Info className="w-4 h-4 mr-2" />
+                  <span className="text-sm">{t("chat.encrypted")}</span>
+                </div>
               </div>
             </div>
-          </div>
-        ) : (
-          <>
-            {messages.map((message) => (
-              <MessageBubble
-                key={message.id}
-                message={message}
-                isOwnMessage={message.senderId === user?.id}
-                showAvatar={conversation?.isGroup || false}
-              />
-            ))}
-            <div ref={messagesEndRef} />
-          </>
+          ) : (
+            <div className="relative" style={{ height: virtualList.totalSize }}>
+              {virtualList.items.map(({ index, key, start }) => {
+                const row = rows[index];
+                return (
+                  <div
+                    key={key}
+                    ref={virtualList.measureElement}
+                    data-key={key}
+                    data-index={index}
+                    className="absolute top-0 left-0 w-full pb-4"
+                    style={{ transform: `translateY(${start}px)` }}
+                  >
+                    {row.type === "date" ? (
+                      <div className="flex justify-center">
+                        <span className="px-3 py-1 rounded-full bg-gray-200 text-xs text-gray-600">
+                          {isToday(row.date)
+                            ? t("chat.today")
+                            : isYesterday(row.date)
+                              ? t("chat.yesterday")
+                              : formatDate(row.date, "PPP")}
+                        </span>
+                      </div>
+                    ) : (
+                      <MessageBubble
+                        message={row.message}
+                        deliveryStatus={row.status}
+                        onRetry={retrySend}
+                        onDiscard={discardSend}
+                        isOwnMessage={row.message.senderId === user?.id}
+                        showAvatar={conversation?.isGroup || false}
+                        readBy={row.message.senderId === user?.id ? getReaders(row.message) : undefined}
+                        isHighlighted={row.message.id === highlightedMessageId}
+                        highlightTerms={isSearchOpen ? chatSearch.terms : undefined}
+                        onReply={handleReply}
+                        onJumpToMessage={jumpToMessage}
+                        onEdit={row.message.senderId === user?.id && row.message.content ? handleEdit : undefined}
+                        onDelete={row.message.senderId === user?.id ? setDeletingMessage : undefined}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        {(aroundMessageId || !isAtBottom) && (
+          <Button
+            size="sm"
+            className="absolute bottom-4 right-4 rounded-full shadow-md bg-blue-600 hover:bg-blue-700 text-white"
+            onClick={jumpToLatest}
+          >
+            <ArrowDown className="w-4 h-4 mr-1" />
+            {t("chat.backToLatest")}
+          </Button>
         )}
       </div>
 
       {/* Message Input */}
       <div className="bg-white border-t border-gray-200 p-4">
+        {editingMessage && (
+          <div className="flex items-center space-x-3 mb-3 pl-3 border-l-2 border-blue-500">
+            <Pencil className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="font-medium text-blue-600">{t("message.editing")}</div>
+              <div className="text-gray-500 truncate">{editingMessage.content}</div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-gray-500"
+              onClick={cancelEdit}
+              aria-label={t("message.cancelEdit")}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="flex items-center space-x-3 mb-3 pl-3 border-l-2 border-blue-500">
+            <Reply className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="font-medium text-blue-600">
+                {t("message.replyingTo", {
+                  name: `${replyingTo.sender.firstName || ''} ${replyingTo.sender.lastName || ''}`.trim() ||
+                    replyingTo.sender.email || t("common.unknownUser"),
+                })}
+              </div>
+              <div className="text-gray-500 truncate">{replyingTo.content || t("message.attachment")}</div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-gray-500"
+              onClick={() => setReplyingTo(null)}
+              aria-label={t("message.cancelReply")}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {pendingFile && (
+          <div className="flex items-center space-x-3 mb-3 pl-3 border-l-2 border-blue-500">
+            <Paperclip className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="font-medium text-gray-900 truncate">{pendingFile.name}</div>
+              <div className="text-gray-500">{formatFileSize(pendingFile.size)}</div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-gray-500"
+              onClick={() => setPendingFile(null)}
+              aria-label={t("chat.removeAttachment")}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
         <div className="flex items-end space-x-3">
-          <Button variant="ghost" size="icon" className="text-gray-600 mb-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_MIME_TYPES.join(",")}
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-gray-600 mb-2"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!editingMessage || sendAttachmentMutation.isPending}
+            aria-label={t("chat.attachFile")}
+          >
             <Paperclip className="w-5 h-5" />
           </Button>
           <div className="flex-1 bg-gray-50 rounded-2xl p-3 min-h-[44px] max-h-32">
             <Textarea
               ref={textareaRef}
-              placeholder="Type a message..."
+              placeholder={t("chat.inputPlaceholder")}
               value={messageContent}
-              onChange={(e) => setMessageContent(e.target.value)}
+              onChange={(e) => {
+                setMessageContent(e.target.value);
+                if (e.target.value) {
+                  handleTyping();
+                } else {
+                  stopTyping();
+                }
+              }}
               onKeyDown={handleKeyDown}
               className="w-full bg-transparent border-none resize-none focus-visible:ring-0 focus-visible:ring-offset-0 min-h-0 p-0"
               rows={1}
@@ -298,7 +900,11 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
           </div>
           <Button
             onClick={handleSendMessage}
-            disabled={!messageContent.trim() || sendMessageMutation.isPending}
+            disabled={
+              (!messageContent.trim() && !pendingFile) ||
+              sendAttachmentMutation.isPending ||
+              editMessageMutation.isPending
+            }
             size="icon"
             className="bg-blue-600 hover:bg-blue-700 text-white rounded-full mb-2"
           >
@@ -313,21 +919,25 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
           <DialogHeader>
             <DialogTitle className="flex items-center space-x-2">
               <MessageSquare className="w-5 h-5" />
-              <span>채팅방 설정</span>
+              <span>{t("chatSettings.title")}</span>
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-6">
             {/* Chat Name Section */}
-            <div className="space-y-3">
-              <h3 className="font-medium text-gray-900">채팅방 이름</h3>
-              <div className="p-3 bg-gray-50 rounded-lg">
-                <p className="text-sm text-gray-700">{getConversationName()}</p>
+            {conversation?.isGroup && user ? (
+              <GroupInfoEditor conversation={conversation} currentUser={user} />
+            ) : (
+              <div className="space-y-3">
+                <h3 className="font-medium text-gray-900">{t("chatSettings.name")}</h3>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-700">{getConversationName()}</p>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Participants Section */}
             <div className="space-y-3">
-              <h3 className="font-medium text-gray-900">참가자</h3>
+              <h3 className="font-medium text-gray-900">{t("chatSettings.participants")}</h3>
               <div className="space-y-2">
                 {conversation?.participants?.map((participant) => (
                   <div key={participant.userId} className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50">
@@ -341,13 +951,18 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
                     <div className="flex-1">
                       <p className="text-sm font-medium text-gray-900">
                         {`${participant.user.firstName || ''} ${participant.user.lastName || ''}`.trim() || 
-                         participant.user.email || 'Unknown User'}
-                        {participant.userId === user?.id && ' (나)'}
+                         participant.user.email || t('common.unknownUser')}
+                        {participant.userId === user?.id && t('common.me')}
                       </p>
                       <p className="text-xs text-gray-500">
                         @{participant.user.email?.split('@')[0] || 'user'}
                       </p>
                     </div>
+                    {conversation.isGroup && participant.role !== 'member' && (
+                      <Badge variant={participant.role === 'owner' ? 'default' : 'secondary'}>
+                        {t(`roles.${participant.role}`)}
+                      </Badge>
+                    )}
                   </div>
                 ))}
               </div>
@@ -355,53 +970,107 @@ export default function ChatArea({ conversationId, onOpenSidebar }: ChatAreaProp
 
             {/* Chat Info */}
             <div className="space-y-3">
-              <h3 className="font-medium text-gray-900">채팅방 정보</h3>
+              <h3 className="font-medium text-gray-900">{t("chatSettings.info")}</h3>
               <div className="space-y-2 text-sm text-gray-600">
                 <div className="flex justify-between">
-                  <span>채팅방 유형:</span>
-                  <span>{conversation?.isGroup ? '그룹 채팅' : '개인 채팅'}</span>
+                  <span>{t("chatSettings.type")}</span>
+                  <span>{conversation?.isGroup ? t('chatSettings.group') : t('chatSettings.direct')}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>참가자 수:</span>
-                  <span>{conversation?.participants?.length || 0}명</span>
+                  <span>{t("chatSettings.participantCount")}</span>
+                  <span>{t("participants.count", { count: conversation?.participants?.length || 0 })}</span>
                 </div>
               </div>
             </div>
 
             {/* Action Buttons */}
             <div className="space-y-2 pt-4 border-t">
-              <Button 
-                variant="outline" 
-                className="w-full justify-start" 
-                onClick={() => {
-                  // 참가자 관리 기능 추가 예정
-                  toast({
-                    title: "준비 중",
-                    description: "참가자 관리 기능은 준비 중입니다.",
-                  });
-                }}
-              >
-                <Users className="w-4 h-4 mr-2" />
-                참가자 관리
-              </Button>
+              {conversation?.isGroup && (
+                <Button 
+                  variant="outline" 
+                  className="w-full justify-start" 
+                  onClick={() => {
+                    setIsSettingsOpen(false);
+                    setIsParticipantsOpen(true);
+                  }}
+                >
+                  <Users className="w-4 h-4 mr-2" />
+                  {t("chatMenu.manageParticipants")}
+                </Button>
+              )}
               <Button 
                 variant="destructive" 
                 className="w-full justify-start"
-                onClick={() => {
-                  // 나가기 기능 추가 예정
-                  toast({
-                    title: "준비 중",
-                    description: "채팅방 나가기 기능은 준비 중입니다.",
-                  });
-                }}
+                onClick={() => setIsLeaveConfirmOpen(true)}
               >
                 <LogOut className="w-4 h-4 mr-2" />
-                채팅방 나가기
+                {t("chatSettings.leave")}
               </Button>
             </div>
           </div>
         </DialogContent>
       </Dialog>
+
+      {conversation?.isGroup && user && (
+        <ParticipantsDialog
+          isOpen={isParticipantsOpen}
+          onClose={() => setIsParticipantsOpen(false)}
+          conversation={conversation}
+          currentUser={user}
+        />
+      )}
+
+      {/* Delete Message Confirmation */}
+      <AlertDialog open={!!deletingMessage} onOpenChange={(open) => !open && setDeletingMessage(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("message.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>{t("message.deleteDescription")}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (deletingMessage) {
+                  deleteMessageMutation.mutate(deletingMessage.id);
+                }
+              }}
+              disabled={deleteMessageMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {t("message.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Leave Confirmation */}
+      <AlertDialog open={isLeaveConfirmOpen} onOpenChange={setIsLeaveConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("leave.title")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {conversation?.isGroup
+                ? t("leave.groupDescription")
+                : t("leave.directDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                leaveConversationMutation.mutate();
+              }}
+              disabled={leaveConversationMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {t("leave.confirm")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
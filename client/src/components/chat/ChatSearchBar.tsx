@@ -0,0 +1,102 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronUp, X } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+
+interface ChatSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  resultCount: number;
+  // Position of the selected match, 0 being the newest
+  currentIndex: number;
+  isSearching: boolean;
+  hasSearched: boolean;
+  onOlder: () => void;
+  onNewer: () => void;
+  onClose: () => void;
+}
+
+export default function ChatSearchBar({
+  query,
+  onQueryChange,
+  resultCount,
+  currentIndex,
+  isSearching,
+  hasSearched,
+  onOlder,
+  onNewer,
+  onClose,
+}: ChatSearchBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onNewer();
+      } else {
+        onOlder();
+      }
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const getStatusText = () => {
+    if (!hasSearched) return "";
+    if (resultCount > 0) return t("chat.searchCount", { current: currentIndex + 1, total: resultCount });
+    return isSearching ? "" : t("chat.searchNoResults");
+  };
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-4 py-2 flex items-center space-x-2">
+      <Input
+        ref={inputRef}
+        type="text"
+        placeholder={t("chat.searchPlaceholder")}
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="flex-1 h-9"
+      />
+      <span className="text-sm text-gray-500 whitespace-nowrap min-w-[4rem] text-right">
+        {getStatusText()}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-gray-600"
+        onClick={onOlder}
+        disabled={currentIndex >= resultCount - 1}
+        aria-label={t("chat.searchOlder")}
+      >
+        <ChevronUp className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-gray-600"
+        onClick={onNewer}
+        disabled={currentIndex <= 0}
+        aria-label={t("chat.searchNewer")}
+      >
+        <ChevronDown className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-gray-600"
+        onClick={onClose}
+        aria-label={t("chat.closeSearch")}
+      >
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -13,15 +13,22 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Settings, Search, Plus, X, User as UserIcon, LogOut } from "lucide-react";
-import { format } from "date-fns";
-import type { User, ConversationWithParticipants } from "@shared/schema";
+import type { User, ConversationWithParticipants, MessageSearchResult } from "@shared/schema";
+import { useI18n } from "@/lib/i18n";
+import { usePresence } from "@/hooks/usePresence";
+import { useTypingIndicators } from "@/hooks/useTypingIndicators";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { formatSystemMessage } from "@/lib/systemMessages";
+import { localStore } from "@/lib/localStore";
 import NewChatDialog from "./NewChatDialog";
+import MessageSearchResults from "./MessageSearchResults";
 import { useLocation } from "wouter";
 
 interface ChatSidebarProps {
   user: User;
   selectedConversationId: string | null;
   onSelectConversation: (id: string) => void;
+  onOpenMessage: (conversationId: string, messageId: string) => void;
   onCloseSidebar: () => void;
 }
 
@@ -29,11 +36,16 @@ export default function ChatSidebar({
   user, 
   selectedConversationId, 
   onSelectConversation,
+  onOpenMessage,
   onCloseSidebar 
 }: ChatSidebarProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [isNewChatOpen, setIsNewChatOpen] = useState(false);
   const queryClient = useQueryClient();
+  const { t, formatDate } = useI18n();
+  const { getPresence } = usePresence();
+  const { getTypingText } = useTypingIndicators();
+  const messageSearch = useMessageSearch(searchQuery);
   const [location, setLocation] = useLocation();
 
   const { data: conversations = [], isLoading } = useQuery<ConversationWithParticipants[]>({
@@ -42,23 +54,27 @@ export default function ChatSidebar({
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
+      // Cached chats and unsent messages belong to this account
+      await localStore.clear().catch(error => {
+        console.error("Failed to clear the local cache:", error);
+      });
       window.location.href = "/api/logout";
     },
   });
 
   const getConversationName = (conversation: ConversationWithParticipants) => {
     if (conversation.isGroup) {
-      return conversation.name || "Unnamed Group";
+      return conversation.name || t("common.unnamedGroup");
     } else {
       // For direct conversations, show the other user's name
       const otherUser = conversation.participants.find(p => p.userId !== user.id)?.user;
-      return otherUser ? `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email : "Unknown User";
+      return otherUser ? `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email : t("common.unknownUser");
     }
   };
 
   const getConversationAvatar = (conversation: ConversationWithParticipants) => {
     if (conversation.isGroup) {
-      return null; // Will show initials
+      return conversation.avatarUrl; // Falls back to initials when unset
     } else {
       const otherUser = conversation.participants.find(p => p.userId !== user.id)?.user;
       return otherUser?.profileImageUrl;
@@ -85,13 +101,13 @@ export default function ChatSidebar({
     const days = Math.floor(diff / (1000 * 60 * 60 * 24));
 
     if (days === 0) {
-      return format(date, 'h:mm a');
+      return formatDate(date, 'p');
     } else if (days === 1) {
-      return 'Yesterday';
+      return t('sidebar.yesterday');
     } else if (days < 7) {
-      return format(date, 'EEEE');
+      return formatDate(date, 'EEEE');
     } else {
-      return format(date, 'MM/dd/yy');
+      return formatDate(date, 'P');
     }
   };
 
@@ -100,6 +116,15 @@ export default function ChatSidebar({
     return name.includes(searchQuery.toLowerCase());
   });
 
+  const getConversationNameById = (conversationId: string) => {
+    const conversation = conversations.find(c => c.id === conversationId);
+    return conversation ? getConversationName(conversation) || '' : '';
+  };
+
+  const handleOpenSearchResult = (result: MessageSearchResult) => {
+    onOpenMessage(result.message.conversationId!, result.message.id);
+  };
+
   const handleLogout = () => {
     logoutMutation.mutate();
   };
@@ -153,7 +178,7 @@ export default function ChatSidebar({
                     onClick={handleOpenSettings}
                   >
                     <UserIcon className="w-4 h-4" />
-                    <span>Profile Settings</span>
+                    <span>{t("sidebar.profileSettings")}</span>
                   </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem 
@@ -161,7 +186,7 @@ export default function ChatSidebar({
                     onClick={handleLogout}
                   >
                     <LogOut className="w-4 h-4" />
-                    <span>Logout</span>
+                    <span>{t("sidebar.logout")}</span>
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -180,7 +205,7 @@ export default function ChatSidebar({
           <div className="relative">
             <Input
               type="text"
-              placeholder="Search messages or users..."
+              placeholder={t("sidebar.searchPlaceholder")}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="bg-white/10 border-white/20 text-white placeholder:text-white/60 focus:bg-white/20"
@@ -193,12 +218,15 @@ export default function ChatSidebar({
         <div className="flex-1 overflow-y-auto">
           {isLoading ? (
             <div className="p-4 text-center text-gray-500">
-              Loading conversations...
+              {t("sidebar.loadingConversations")}
             </div>
           ) : filteredConversations.length === 0 ? (
-            <div className="p-4 text-center text-gray-500">
-              {searchQuery ? 'No conversations found' : 'No conversations yet'}
-            </div>
+            // While searching messages, their section says whether anything matched
+            !messageSearch.isActive && (
+              <div className="p-4 text-center text-gray-500">
+                {searchQuery ? t('sidebar.noConversationsFound') : t('sidebar.noConversations')}
+              </div>
+            )
           ) : (
             filteredConversations.map((conversation) => (
               <div
@@ -216,7 +244,9 @@ export default function ChatSidebar({
                         {getAvatarFallback(conversation)}
                       </AvatarFallback>
                     </Avatar>
-                    {!conversation.isGroup && (
+                    {!conversation.isGroup && getPresence(
+                      conversation.participants.find(p => p.userId !== user.id)?.userId
+                    )?.online && (
                       <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 border-2 border-white rounded-full"></div>
                     )}
                   </div>
@@ -232,21 +262,31 @@ export default function ChatSidebar({
                       )}
                     </div>
                     <div className="text-sm text-gray-500 truncate">
-                      {conversation.lastMessage ? (
+                      {getTypingText(conversation) ? (
+                        <span className="text-blue-600 italic">{getTypingText(conversation)}</span>
+                      ) : conversation.lastMessage ? (
                         <>
-                          {conversation.isGroup && (
+                          {conversation.isGroup && conversation.lastMessage.type !== 'system' && (
                             <span className="font-medium">
-                              {conversation.lastMessage.sender?.firstName || conversation.lastMessage.sender?.email || 'Unknown'}:{' '}
+                              {conversation.lastMessage.sender?.firstName || conversation.lastMessage.sender?.email || t('common.unknownUser')}:{' '}
                             </span>
                           )}
-                          {conversation.lastMessage.content}
+                          {conversation.lastMessage.type === 'system'
+                            ? formatSystemMessage(
+                                conversation.lastMessage,
+                                conversation.lastMessage.sender?.firstName || conversation.lastMessage.sender?.email || t('common.unknownUser'),
+                                t,
+                              )
+                            : conversation.lastMessage.deletedAt
+                              ? <span className="italic">{t("message.deleted")}</span>
+                              : conversation.lastMessage.content || t("message.attachment")}
                         </>
                       ) : (
-                        <span className="italic">No messages yet</span>
+                        <span className="italic">{t("sidebar.noMessages")}</span>
                       )}
                     </div>
                   </div>
-                  {conversation.unreadCount && conversation.unreadCount > 0 && (
+                  {(conversation.unreadCount ?? 0) > 0 && (
                     <Badge variant="default" className="bg-blue-600">
                       {conversation.unreadCount}
                     </Badge>
@@ -255,6 +295,14 @@ export default function ChatSidebar({
               </div>
             ))
           )}
+          {messageSearch.isActive && (
+            <MessageSearchResults
+              results={messageSearch.results}
+              isSearching={messageSearch.isSearching}
+              getConversationName={getConversationNameById}
+              onSelectResult={handleOpenSearchResult}
+            />
+          )}
         </div>
 
         {/* New Chat Button */}
@@ -264,7 +312,7 @@ export default function ChatSidebar({
             className="w-full bg-blue-600 hover:bg-blue-700 text-white"
           >
             <Plus className="w-4 h-4 mr-2" />
-            New Chat
+            {t("sidebar.newChat")}
           </Button>
         </div>
       </div>
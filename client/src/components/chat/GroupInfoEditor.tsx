@@ -0,0 +1,156 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useI18n } from "@/lib/i18n";
+import { hasPermission } from "@shared/permissions";
+import { avatarUrlSchema, type ConversationWithParticipants, type UpdateConversation, type User } from "@shared/schema";
+
+interface GroupInfoEditorProps {
+  conversation: ConversationWithParticipants;
+  currentUser: User;
+}
+
+export default function GroupInfoEditor({ conversation, currentUser }: GroupInfoEditorProps) {
+  const [name, setName] = useState(conversation.name || "");
+  const [description, setDescription] = useState(conversation.description || "");
+  const [avatarUrl, setAvatarUrl] = useState(conversation.avatarUrl || "");
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+
+  const myRole = conversation.participants.find(p => p.userId === currentUser.id)?.role;
+  const canEdit = hasPermission(myRole, 'edit_info');
+
+  // Pick up changes made by other admins while the modal is open
+  useEffect(() => {
+    setName(conversation.name || "");
+    setDescription(conversation.description || "");
+    setAvatarUrl(conversation.avatarUrl || "");
+  }, [conversation.name, conversation.description, conversation.avatarUrl]);
+
+  const updateConversationMutation = useMutation({
+    mutationFn: async (updates: UpdateConversation) => {
+      return apiRequest('PATCH', `/api/conversations/${conversation.id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      toast({
+        title: t("groupInfo.savedTitle"),
+        description: t("groupInfo.savedDescription"),
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: t("auth.unauthorizedTitle"),
+          description: t("auth.unauthorizedDescription"),
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: t("common.error"),
+        description: error.message.startsWith("400")
+          ? t("groupInfo.invalid")
+          : t("groupInfo.failed"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isAvatarUrlValid = !avatarUrl.trim() || avatarUrlSchema.safeParse(avatarUrl.trim()).success;
+
+  const isDirty =
+    name.trim() !== (conversation.name || "") ||
+    description.trim() !== (conversation.description || "") ||
+    avatarUrl.trim() !== (conversation.avatarUrl || "");
+
+  const handleSave = () => {
+    updateConversationMutation.mutate({
+      name: name.trim(),
+      description: description.trim() || null,
+      avatarUrl: avatarUrl.trim() || null,
+    });
+  };
+
+  const getAvatarFallback = () => {
+    const groupName = name || "Group";
+    return groupName.split(' ').map(word => word[0]).join('').slice(0, 2).toUpperCase();
+  };
+
+  if (!canEdit) {
+    return (
+      <div className="space-y-3">
+        <h3 className="font-medium text-gray-900">{t("groupInfo.name")}</h3>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-700">{conversation.name || t("common.unnamedGroup")}</p>
+        </div>
+        {conversation.description && (
+          <p className="text-sm text-gray-600 whitespace-pre-wrap">{conversation.description}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-3">
+        <Avatar className="w-12 h-12">
+          <AvatarImage src={isAvatarUrlValid ? avatarUrl.trim() || undefined : undefined} />
+          <AvatarFallback className="bg-green-500 text-white">
+            {getAvatarFallback()}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="groupName">{t("groupInfo.name")}</Label>
+          <Input
+            id="groupName"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="groupDescription">{t("groupInfo.description")}</Label>
+        <Textarea
+          id="groupDescription"
+          placeholder={t("groupInfo.descriptionPlaceholder")}
+          value={description}
+          maxLength={500}
+          rows={2}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="groupAvatar">{t("groupInfo.avatarUrl")}</Label>
+        <Input
+          id="groupAvatar"
+          placeholder="https://..."
+          value={avatarUrl}
+          onChange={(e) => setAvatarUrl(e.target.value)}
+        />
+        {!isAvatarUrlValid && (
+          <p className="text-xs text-red-600">{t("groupInfo.avatarUrlInvalid")}</p>
+        )}
+      </div>
+      <Button
+        className="w-full"
+        onClick={handleSave}
+        disabled={!isDirty || !name.trim() || !isAvatarUrlValid || updateConversationMutation.isPending}
+      >
+        {updateConversationMutation.isPending ? t("common.saving") : t("common.save")}
+      </Button>
+    </div>
+  );
+}
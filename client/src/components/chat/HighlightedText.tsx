@@ -0,0 +1,23 @@
+interface HighlightedTextProps {
+  text: string;
+  // Sorted, non-overlapping [start, end) offsets into text
+  ranges: [number, number][];
+}
+
+export default function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  const parts = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-gray-900 rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
@@ -0,0 +1,55 @@
+import { Download, FileText } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import { formatFileSize, isImageAttachment } from "@shared/attachments";
+import type { Attachment } from "@shared/schema";
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[];
+  isOwnMessage: boolean;
+}
+
+// Images render as thumbnails that open full size; other files as download cards
+export default function MessageAttachments({ attachments, isOwnMessage }: MessageAttachmentsProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-2">
+      {attachments.map((attachment) =>
+        isImageAttachment(attachment.mimeType) ? (
+          <a
+            key={attachment.id}
+            href={`/api/attachments/${attachment.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block"
+          >
+            <img
+              src={`/api/attachments/${attachment.id}`}
+              alt={attachment.fileName}
+              loading="lazy"
+              className="max-h-60 max-w-full rounded-lg object-cover"
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.id}
+            href={`/api/attachments/${attachment.id}/download`}
+            className={`flex items-center space-x-3 p-2 rounded-lg ${
+              isOwnMessage ? "bg-white/15 hover:bg-white/25 text-white" : "bg-gray-100 hover:bg-gray-200 text-gray-900"
+            }`}
+            aria-label={t("message.download", { name: attachment.fileName })}
+          >
+            <FileText className="w-8 h-8 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium truncate">{attachment.fileName}</div>
+              <div className={`text-xs ${isOwnMessage ? "text-white/70" : "text-gray-500"}`}>
+                {formatFileSize(attachment.size)}
+              </div>
+            </div>
+            <Download className="w-4 h-4 flex-shrink-0" />
+          </a>
+        )
+      )}
+    </div>
+  );
+}
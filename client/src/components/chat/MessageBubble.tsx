@@ -1,22 +1,134 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
-import { format } from "date-fns";
-import { Check, CheckCheck } from "lucide-react";
-import type { MessageWithSender } from "@shared/schema";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertCircle, Check, CheckCheck, Clock, Languages, MoreHorizontal, Pencil, Reply, SmilePlus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { getLanguageName } from "@/lib/languages";
+import { useI18n } from "@/lib/i18n";
+import { formatSystemMessage } from "@/lib/systemMessages";
+import { updateCachedMessage } from "@/lib/messageCache";
+import type { OutgoingStatus } from "@/lib/outbox";
+import MessageHistoryDialog from "./MessageHistoryDialog";
+import MessageAttachments from "./MessageAttachments";
+import HighlightedText from "./HighlightedText";
+import { findMatchRanges } from "@shared/search";
+import { reactionEmojiSchema, type MessageWithSender, type ReactionEmoji, type ReactionSummary, type User } from "@shared/schema";
+
+type Translation = NonNullable<MessageWithSender["translation"]>;
 
 interface MessageBubbleProps {
   message: MessageWithSender;
+  // Set while an own message is still on its way to the server
+  deliveryStatus?: OutgoingStatus;
   isOwnMessage: boolean;
   showAvatar?: boolean;
+  // For own messages: the other participants who have read it
+  readBy?: User[];
+  isHighlighted?: boolean;
+  // Search terms to mark in the text
+  highlightTerms?: string[];
+  onReply?: (message: MessageWithSender) => void;
+  onJumpToMessage?: (messageId: string) => void;
+  onEdit?: (message: MessageWithSender) => void;
+  onDelete?: (message: MessageWithSender) => void;
+  onRetry?: (message: MessageWithSender) => void;
+  onDiscard?: (message: MessageWithSender) => void;
 }
 
-export default function MessageBubble({ message, isOwnMessage, showAvatar }: MessageBubbleProps) {
+export default function MessageBubble({
+  message,
+  deliveryStatus,
+  isOwnMessage,
+  showAvatar,
+  readBy = [],
+  isHighlighted,
+  highlightTerms,
+  onReply,
+  onJumpToMessage,
+  onEdit,
+  onDelete,
+  onRetry,
+  onDiscard,
+}: MessageBubbleProps) {
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [requestedTranslation, setRequestedTranslation] = useState<Translation>();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { t, formatDate } = useI18n();
+
+  // Auto-translated messages arrive with a translation; others can ask for one
+  const translation = message.translation ?? requestedTranslation;
+  const canTranslate = !!message.content && (!message.language || message.language !== user?.preferredLanguage);
+
+  const translateMutation = useMutation({
+    mutationFn: async (): Promise<Translation> => {
+      const response = await apiRequest('POST', `/api/messages/${message.id}/translate`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setRequestedTranslation(result);
+      setShowOriginal(false);
+    },
+    onError: () => {
+      toast({
+        title: t("message.translationUnavailableTitle"),
+        description: t("message.translationUnavailableDescription"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reactionMutation = useMutation({
+    mutationFn: async ({ emoji, remove }: { emoji: ReactionEmoji; remove: boolean }): Promise<ReactionSummary[]> => {
+      const response = await apiRequest(
+        remove ? 'DELETE' : 'PUT',
+        `/api/messages/${message.id}/reactions/${encodeURIComponent(emoji)}`,
+      );
+      return response.json();
+    },
+    onSuccess: (reactions) => {
+      updateCachedMessage(queryClient, message.conversationId!, message.id, m => ({ ...m, reactions }));
+    },
+    onError: () => {
+      toast({
+        title: t("common.error"),
+        description: t("message.reactionFailed"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasReacted = (emoji: ReactionEmoji) =>
+    !!user && !!message.reactions?.some(r => r.emoji === emoji && r.userIds.includes(user.id));
+
+  const toggleReaction = (emoji: ReactionEmoji) => {
+    reactionMutation.mutate({ emoji, remove: hasReacted(emoji) });
+  };
+
+  const renderText = (text: string) =>
+    highlightTerms && highlightTerms.length > 0
+      ? <HighlightedText text={text} ranges={findMatchRanges(text, highlightTerms)} />
+      : text;
+
   const formatTime = (timestamp: string) => {
-    return format(new Date(timestamp), 'h:mm a');
+    return formatDate(timestamp, 'p');
   };
 
   const getSenderName = () => {
     return `${message.sender.firstName || ''} ${message.sender.lastName || ''}`.trim() || 
-           message.sender.email?.split('@')[0] || 'Unknown';
+           message.sender.email?.split('@')[0] || t('common.unknownUser');
   };
 
   const getAvatarFallback = () => {
@@ -24,18 +136,279 @@ export default function MessageBubble({ message, isOwnMessage, showAvatar }: Mes
            message.sender.email?.[0]?.toUpperCase() || 'U';
   };
 
+  const getUserName = (person: Pick<User, "firstName" | "lastName" | "email">) => {
+    return `${person.firstName || ''} ${person.lastName || ''}`.trim() || person.email || t('common.unknownUser');
+  };
+
+  const replyTo = message.replyTo;
+  const replyQuote = replyTo && (
+    <button
+      type="button"
+      className={`block w-full text-left mb-2 pl-2 border-l-2 text-xs ${
+        isOwnMessage ? "border-white/70 text-white/80" : "border-blue-500 text-gray-600"
+      }`}
+      onClick={() => onJumpToMessage?.(replyTo.id)}
+      disabled={replyTo.deleted}
+    >
+      {replyTo.deleted ? (
+        <span className="italic">{t("message.replyToDeleted")}</span>
+      ) : (
+        <>
+          <span className="block font-medium">
+            {replyTo.sender ? getUserName(replyTo.sender) : t("common.unknownUser")}
+          </span>
+          <span className="block truncate">{replyTo.snippet || t("message.attachment")}</span>
+        </>
+      )}
+    </button>
+  );
+
+  const replyButton = onReply && (
+    <button
+      type="button"
+      className="text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+      onClick={() => onReply(message)}
+      aria-label={t("message.reply")}
+    >
+      <Reply className="w-3 h-3" />
+    </button>
+  );
+
+  const reactionPicker = (
+    <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+          aria-label={t("message.react")}
+        >
+          <SmilePlus className="w-3 h-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align={isOwnMessage ? "end" : "start"} className="w-auto p-1 flex space-x-1">
+        {reactionEmojiSchema.options.map((emoji) => (
+          <button
+            key={emoji}
+            type="button"
+            className={`text-xl leading-none p-1.5 rounded-md hover:bg-gray-100 ${hasReacted(emoji) ? "bg-blue-50" : ""}`}
+            onClick={() => {
+              toggleReaction(emoji);
+              setIsPickerOpen(false);
+            }}
+          >
+            {emoji}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+
+  const reactionBar = message.reactions && message.reactions.length > 0 && (
+    <div className={`flex flex-wrap gap-1 mt-1 ${isOwnMessage ? "justify-end mr-2" : "ml-2"}`}>
+      {message.reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          type="button"
+          className={`flex items-center space-x-1 px-2 py-0.5 rounded-full border text-xs ${
+            hasReacted(reaction.emoji)
+              ? "bg-blue-50 border-blue-300 text-blue-700"
+              : "bg-white border-gray-200 text-gray-600 hover:bg-gray-50"
+          }`}
+          onClick={() => toggleReaction(reaction.emoji)}
+          disabled={reactionMutation.isPending}
+          aria-pressed={hasReacted(reaction.emoji)}
+        >
+          <span>{reaction.emoji}</span>
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  const ownActions = isOwnMessage && (onEdit || onDelete) && (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="text-gray-400 hover:text-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+          aria-label={t("message.actions")}
+        >
+          <MoreHorizontal className="w-3 h-3" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-36">
+        {onEdit && (
+          <DropdownMenuItem onClick={() => onEdit(message)} className="flex items-center space-x-2">
+            <Pencil className="w-4 h-4" />
+            <span>{t("message.edit")}</span>
+          </DropdownMenuItem>
+        )}
+        {onDelete && (
+          <DropdownMenuItem
+            onClick={() => onDelete(message)}
+            className="flex items-center space-x-2 text-red-600 focus:text-red-600"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>{t("message.delete")}</span>
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  // Opens the edit history
+  const editedMarker = message.editedAt && (
+    <>
+      <button
+        type="button"
+        className="text-xs text-gray-400 hover:underline"
+        onClick={() => setIsHistoryOpen(true)}
+      >
+        {t("message.edited")}
+      </button>
+      <MessageHistoryDialog
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        message={message}
+      />
+    </>
+  );
+
+  const attachmentList = message.attachments && message.attachments.length > 0 && (
+    <div className={message.content ? "mb-2" : undefined}>
+      <MessageAttachments attachments={message.attachments} isOwnMessage={isOwnMessage} />
+    </div>
+  );
+
+  const highlightClass = isHighlighted ? "bg-yellow-100 rounded-2xl transition-colors" : "transition-colors";
+
+  const readStatus = readBy.length > 0 ? (
+    <CheckCheck className="w-3 h-3 text-blue-600" aria-label={t("message.read")} />
+  ) : (
+    <Check className="w-3 h-3 text-gray-400" aria-label={t("message.sent")} />
+  );
+
+  if (message.type === 'system') {
+    return (
+      <div className="flex justify-center">
+        <div className="text-xs text-gray-500 bg-gray-200/70 px-3 py-1 rounded-full">
+          {formatSystemMessage(message, getSenderName(), t)}
+        </div>
+      </div>
+    );
+  }
+
+  if (message.deletedAt) {
+    return (
+      <div id={`message-${message.id}`} className={`flex ${isOwnMessage ? "justify-end" : "justify-start"}`}>
+        <div className="text-sm italic text-gray-400 border border-dashed border-gray-300 px-3 py-2 rounded-2xl">
+          {t("message.deleted")}
+        </div>
+      </div>
+    );
+  }
+
+  // Unconfirmed messages do not exist on the server yet, so they offer no
+  // actions besides retrying or discarding a failed send
+  if (isOwnMessage && deliveryStatus) {
+    const isFailed = deliveryStatus === "failed";
+    return (
+      <div id={`message-${message.id}`} className="flex justify-end">
+        <div className="max-w-xs lg:max-w-md">
+          <div
+            className={`p-3 rounded-2xl rounded-tr-md shadow-sm ${
+              isFailed ? "bg-red-500 cursor-pointer" : "bg-blue-600 opacity-70"
+            }`}
+            {...(isFailed && {
+              role: "button",
+              tabIndex: 0,
+              "aria-label": t("message.retry"),
+              onClick: () => onRetry?.(message),
+              onKeyDown: (e: React.KeyboardEvent) => {
+                if (e.key === "Enter" || e.key === " ") onRetry?.(message);
+              },
+            })}
+          >
+            {replyQuote && <div className="pointer-events-none">{replyQuote}</div>}
+            <p className="text-white break-words">{message.content}</p>
+          </div>
+          <div className="flex items-center space-x-2 mt-1 mr-2 justify-end">
+            {isFailed ? (
+              <>
+                <span className="text-xs text-red-600">{t("message.notSent")}</span>
+                <button
+                  type="button"
+                  className="text-xs text-gray-500 hover:underline"
+                  onClick={() => onDiscard?.(message)}
+                >
+                  {t("message.discard")}
+                </button>
+                <AlertCircle className="w-3 h-3 text-red-600" />
+              </>
+            ) : (
+              <>
+                <span className="text-xs text-gray-500">
+                  {formatTime(message.createdAt?.toString() || '')}
+                </span>
+                <Clock className="w-3 h-3 text-gray-400" aria-label={t("message.sending")} />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (isOwnMessage) {
     return (
-      <div className="flex items-start space-x-2 flex-row-reverse">
+      <div id={`message-${message.id}`} className={`group flex items-start space-x-2 flex-row-reverse ${highlightClass}`}>
         <div className="max-w-xs lg:max-w-md">
           <div className="bg-blue-600 p-3 rounded-2xl rounded-tr-md shadow-sm">
-            <p className="text-white break-words">{message.content}</p>
+            {replyQuote}
+            {attachmentList}
+            {message.content && <p className="text-white break-words">{renderText(message.content)}</p>}
           </div>
+          {reactionBar}
           <div className="flex items-center space-x-2 mt-1 mr-2 justify-end">
+            {ownActions}
+            {reactionPicker}
+            {replyButton}
+            {editedMarker}
             <span className="text-xs text-gray-500">
               {formatTime(message.createdAt?.toString() || '')}
             </span>
-            <CheckCheck className="w-3 h-3 text-blue-600" />
+            {showAvatar ? (
+              // Group chats list who has seen the message
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button type="button" className="flex items-center">
+                    {readStatus}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-56 p-3">
+                  <div className="text-xs font-medium text-gray-500 mb-2">{t("message.seenBy")}</div>
+                  {readBy.length === 0 ? (
+                    <div className="text-sm text-gray-500">{t("message.notSeenYet")}</div>
+                  ) : (
+                    <div className="max-h-48 overflow-y-auto space-y-2">
+                      {readBy.map((reader) => (
+                        <div key={reader.id} className="flex items-center space-x-2">
+                          <Avatar className="w-6 h-6">
+                            <AvatarImage src={reader.profileImageUrl || undefined} />
+                            <AvatarFallback className="bg-blue-100 text-blue-600 text-[10px]">
+                              {`${reader.firstName?.[0] || ''}${reader.lastName?.[0] || ''}` || reader.email?.[0]?.toUpperCase() || 'U'}
+                            </AvatarFallback>
+                          </Avatar>
+                          <span className="text-sm truncate">{getUserName(reader)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </PopoverContent>
+              </Popover>
+            ) : (
+              readStatus
+            )}
           </div>
         </div>
       </div>
@@ -43,7 +416,7 @@ export default function MessageBubble({ message, isOwnMessage, showAvatar }: Mes
   }
 
   return (
-    <div className="flex items-start space-x-2">
+    <div id={`message-${message.id}`} className={`group flex items-start space-x-2 ${highlightClass}`}>
       {showAvatar && (
         <Avatar className="w-8 h-8 flex-shrink-0">
           <AvatarImage src={message.sender.profileImageUrl || undefined} />
@@ -59,12 +432,48 @@ export default function MessageBubble({ message, isOwnMessage, showAvatar }: Mes
           </div>
         )}
         <div className="bg-white p-3 rounded-2xl rounded-tl-md shadow-sm">
-          <p className="text-gray-900 break-words">{message.content}</p>
+          {replyQuote}
+          {attachmentList}
+          {message.content && (
+            <p className="text-gray-900 break-words">
+              {renderText(translation && !showOriginal ? translation.content : message.content)}
+            </p>
+          )}
         </div>
+        {reactionBar}
         <div className="flex items-center space-x-2 mt-1 ml-2">
           <span className="text-xs text-gray-500">
             {formatTime(message.createdAt?.toString() || '')}
           </span>
+          {editedMarker}
+          {translation ? (
+            <>
+              <span className="flex items-center text-xs text-gray-400">
+                <Languages className="w-3 h-3 mr-1" />
+                {translation.sourceLanguage
+                  ? `${getLanguageName(translation.sourceLanguage)} → ${getLanguageName(translation.language)}`
+                  : t("message.translatedTo", { language: getLanguageName(translation.language) ?? translation.language })}
+              </span>
+              <button
+                type="button"
+                className="text-xs text-blue-600 hover:underline"
+                onClick={() => setShowOriginal(!showOriginal)}
+              >
+                {showOriginal ? t("message.showTranslation") : t("message.showOriginal")}
+              </button>
+            </>
+          ) : canTranslate && (
+            <button
+              type="button"
+              className="text-xs text-blue-600 hover:underline disabled:text-gray-400"
+              onClick={() => translateMutation.mutate()}
+              disabled={translateMutation.isPending}
+            >
+              {translateMutation.isPending ? t("message.translating") : t("message.translate")}
+            </button>
+          )}
+          {reactionPicker}
+          {replyButton}
         </div>
       </div>
     </div>
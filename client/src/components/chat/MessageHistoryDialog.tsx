@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { History } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
+import type { MessageEdit, MessageWithSender } from "@shared/schema";
+
+interface MessageHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  message: MessageWithSender;
+}
+
+export default function MessageHistoryDialog({ isOpen, onClose, message }: MessageHistoryDialogProps) {
+  const { t, formatDate } = useI18n();
+
+  const { data: edits = [], isLoading } = useQuery<MessageEdit[]>({
+    queryKey: [`/api/messages/${message.id}/edits`],
+    enabled: isOpen,
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="w-5 h-5" />
+            <span>{t("message.historyTitle")}</span>
+          </DialogTitle>
+          <DialogDescription>{t("message.historyDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-80 overflow-y-auto space-y-3">
+          <div className="p-3 rounded-lg bg-blue-50">
+            <div className="text-xs text-blue-600 mb-1">
+              {t("message.historyCurrent")}
+              {message.editedAt && ` · ${formatDate(message.editedAt, 'Pp')}`}
+            </div>
+            <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">{message.content}</p>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-4 text-gray-500">{t("common.loading")}</div>
+          ) : edits.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">{t("message.historyEmpty")}</div>
+          ) : (
+            // Newest first; each row is the content as it was before that edit
+            [...edits].reverse().map((edit, index, newestFirst) => {
+              const writtenAt = newestFirst[index + 1]?.editedAt ?? message.createdAt;
+              return (
+                <div key={edit.id} className="p-3 rounded-lg bg-gray-50">
+                  {writtenAt && (
+                    <div className="text-xs text-gray-500 mb-1">{formatDate(writtenAt, 'Pp')}</div>
+                  )}
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{edit.previousContent}</p>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
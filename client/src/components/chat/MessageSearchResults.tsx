@@ -0,0 +1,58 @@
+import { useI18n } from "@/lib/i18n";
+import type { MessageSearchResult } from "@shared/schema";
+import HighlightedText from "./HighlightedText";
+
+interface MessageSearchResultsProps {
+  results: MessageSearchResult[];
+  isSearching: boolean;
+  getConversationName: (conversationId: string) => string;
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+export default function MessageSearchResults({
+  results,
+  isSearching,
+  getConversationName,
+  onSelectResult,
+}: MessageSearchResultsProps) {
+  const { t, formatDate } = useI18n();
+
+  return (
+    <div>
+      <div className="px-4 py-2 text-xs font-medium text-gray-500 uppercase bg-gray-50 border-b border-gray-200">
+        {t("sidebar.messagesHeading")}
+      </div>
+      {results.length === 0 ? (
+        <div className="p-4 text-center text-sm text-gray-500">
+          {isSearching ? t("sidebar.searchingMessages") : t("sidebar.noMessagesFound")}
+        </div>
+      ) : (
+        results.map((result) => {
+          const { message } = result;
+          const senderName = message.sender.firstName || message.sender.email?.split('@')[0] || t("common.unknownUser");
+          return (
+            <button
+              key={message.id}
+              type="button"
+              className="block w-full text-left border-b border-gray-200 hover:bg-gray-50 transition-colors px-4 py-3"
+              onClick={() => onSelectResult(result)}
+            >
+              <div className="flex items-center justify-between">
+                <div className="font-medium text-gray-900 truncate">
+                  {getConversationName(message.conversationId!)}
+                </div>
+                <div className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                  {formatDate(message.createdAt!, 'P')}
+                </div>
+              </div>
+              <div className="text-sm text-gray-600 line-clamp-2 break-words">
+                <span className="font-medium">{senderName}: </span>
+                <HighlightedText text={result.snippet} ranges={result.highlights} />
+              </div>
+            </button>
+          );
+        })
+      )}
+    </div>
+  );
+}
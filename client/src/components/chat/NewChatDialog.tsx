@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import {
   Dialog,
@@ -17,6 +17,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Search, Users, MessageCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { useUserSearch } from "@/hooks/useUserSearch";
+import { useI18n } from "@/lib/i18n";
 import type { User } from "@shared/schema";
 
 interface NewChatDialogProps {
@@ -31,12 +33,9 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
   const [groupName, setGroupName] = useState("");
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const { toast } = useToast();
+  const { t } = useI18n();
 
-  const { data: searchResults = [], isLoading: isSearching } = useQuery<User[]>({
-    queryKey: ["/api/users/search", { q: searchQuery }],
-    enabled: searchQuery.length > 0,
-    queryFn: () => fetch(`/api/users/search?q=${encodeURIComponent(searchQuery)}`).then(res => res.json()),
-  });
+  const { results: searchResults, isSearching } = useUserSearch(searchQuery);
 
   const createDirectChatMutation = useMutation({
     mutationFn: async (userId: string) => {
@@ -50,8 +49,8 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
     onError: (error) => {
       if (isUnauthorizedError(error)) {
         toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
+          title: t("auth.unauthorizedTitle"),
+          description: t("auth.unauthorizedDescription"),
           variant: "destructive",
         });
         setTimeout(() => {
@@ -60,8 +59,8 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
         return;
       }
       toast({
-        title: "Error",
-        description: "Failed to create chat. Please try again.",
+        title: t("common.error"),
+        description: t("newChat.createChatFailed"),
         variant: "destructive",
       });
     },
@@ -82,8 +81,8 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
     onError: (error) => {
       if (isUnauthorizedError(error)) {
         toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
+          title: t("auth.unauthorizedTitle"),
+          description: t("auth.unauthorizedDescription"),
           variant: "destructive",
         });
         setTimeout(() => {
@@ -92,8 +91,8 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
         return;
       }
       toast({
-        title: "Error",
-        description: "Failed to create group. Please try again.",
+        title: t("common.error"),
+        description: t("newChat.createGroupFailed"),
         variant: "destructive",
       });
     },
@@ -113,8 +112,8 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
   const handleCreateGroup = () => {
     if (!groupName.trim() || selectedUsers.length === 0) {
       toast({
-        title: "Error",
-        description: "Please enter a group name and select at least one user.",
+        title: t("common.error"),
+        description: t("newChat.groupValidation"),
         variant: "destructive",
       });
       return;
@@ -146,9 +145,9 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>New Chat</DialogTitle>
+          <DialogTitle>{t("newChat.title")}</DialogTitle>
           <DialogDescription>
-            Start a new conversation or create a group chat
+            {t("newChat.description")}
           </DialogDescription>
         </DialogHeader>
 
@@ -156,21 +155,21 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="direct" className="flex items-center space-x-2">
               <MessageCircle className="w-4 h-4" />
-              <span>Direct Message</span>
+              <span>{t("newChat.direct")}</span>
             </TabsTrigger>
             <TabsTrigger value="group" className="flex items-center space-x-2">
               <Users className="w-4 h-4" />
-              <span>Group Chat</span>
+              <span>{t("newChat.group")}</span>
             </TabsTrigger>
           </TabsList>
 
           <TabsContent value="direct" className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="search">Search Users</Label>
+              <Label htmlFor="search">{t("newChat.searchUsers")}</Label>
               <div className="relative">
                 <Input
                   id="search"
-                  placeholder="Type a name or email..."
+                  placeholder={t("newChat.searchPlaceholder")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                 />
@@ -180,9 +179,9 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
 
             <div className="max-h-60 overflow-y-auto space-y-2">
               {isSearching ? (
-                <div className="text-center py-4 text-gray-500">Searching...</div>
+                <div className="text-center py-4 text-gray-500">{t("newChat.searching")}</div>
               ) : searchResults.length === 0 && searchQuery ? (
-                <div className="text-center py-4 text-gray-500">No users found</div>
+                <div className="text-center py-4 text-gray-500">{t("newChat.noUsers")}</div>
               ) : (
                 searchResults.map((user) => (
                   <div
@@ -208,21 +207,21 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
 
           <TabsContent value="group" className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="groupName">Group Name</Label>
+              <Label htmlFor="groupName">{t("newChat.groupName")}</Label>
               <Input
                 id="groupName"
-                placeholder="Enter group name..."
+                placeholder={t("newChat.groupNamePlaceholder")}
                 value={groupName}
                 onChange={(e) => setGroupName(e.target.value)}
               />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="groupSearch">Add Members</Label>
+              <Label htmlFor="groupSearch">{t("newChat.addMembers")}</Label>
               <div className="relative">
                 <Input
                   id="groupSearch"
-                  placeholder="Search users to add..."
+                  placeholder={t("newChat.addMembersPlaceholder")}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                 />
@@ -232,15 +231,15 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
 
             {selectedUsers.length > 0 && (
               <div className="text-sm text-gray-600">
-                {selectedUsers.length} member{selectedUsers.length === 1 ? '' : 's'} selected
+                {t("newChat.membersSelected", { count: selectedUsers.length })}
               </div>
             )}
 
             <div className="max-h-48 overflow-y-auto space-y-2">
               {isSearching ? (
-                <div className="text-center py-4 text-gray-500">Searching...</div>
+                <div className="text-center py-4 text-gray-500">{t("newChat.searching")}</div>
               ) : searchResults.length === 0 && searchQuery ? (
-                <div className="text-center py-4 text-gray-500">No users found</div>
+                <div className="text-center py-4 text-gray-500">{t("newChat.noUsers")}</div>
               ) : (
                 searchResults.map((user) => (
                   <div
@@ -271,7 +270,7 @@ export default function NewChatDialog({ isOpen, onClose, onChatCreated, currentU
               disabled={!groupName.trim() || selectedUsers.length === 0 || createGroupChatMutation.isPending}
               className="w-full"
             >
-              {createGroupChatMutation.isPending ? "Creating..." : "Create Group"}
+              {createGroupChatMutation.isPending ? t("newChat.creating") : t("newChat.createGroup")}
             </Button>
           </TabsContent>
         </Tabs>
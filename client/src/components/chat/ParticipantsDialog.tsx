@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowLeft, Crown, MoreVertical, Search, Shield, ShieldOff, UserMinus, UserPlus, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUserSearch } from "@/hooks/useUserSearch";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useI18n } from "@/lib/i18n";
+import { hasPermission, canRemoveParticipant } from "@shared/permissions";
+import type { ConversationWithParticipants, ParticipantRole, User } from "@shared/schema";
+
+interface ParticipantsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversation: ConversationWithParticipants;
+  currentUser: User;
+}
+
+const roleOrder: Record<ParticipantRole, number> = { owner: 0, admin: 1, member: 2 };
+
+export default function ParticipantsDialog({ isOpen, onClose, conversation, currentUser }: ParticipantsDialogProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  const { results: searchResults, isSearching } = useUserSearch(searchQuery);
+
+  const myRole = conversation.participants.find(p => p.userId === currentUser.id)?.role;
+  const canChangeRoles = hasPermission(myRole, 'change_roles');
+  const canAddMembers = hasPermission(myRole, 'add_members');
+  const memberIds = new Set(conversation.participants.map(p => p.userId));
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: t("auth.unauthorizedTitle"),
+        description: t("auth.unauthorizedDescription"),
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: t("common.error"),
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const addParticipantsMutation = useMutation({
+    mutationFn: async (userIds: string[]) => {
+      return apiRequest('POST', `/api/conversations/${conversation.id}/participants`, { userIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      resetAddForm();
+    },
+    onError: (error) => handleError(
+      error,
+      error.message.startsWith("409") ? t("participants.duplicate") : t("participants.addFailed"),
+    ),
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: ParticipantRole }) => {
+      return apiRequest('PATCH', `/api/conversations/${conversation.id}/participants/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+    onError: (error) => handleError(error, t("participants.changeRoleFailed")),
+  });
+
+  const removeParticipantMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest('DELETE', `/api/conversations/${conversation.id}/participants/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+    onError: (error) => handleError(error, t("participants.removeFailed")),
+  });
+
+  const resetAddForm = () => {
+    setIsAdding(false);
+    setSearchQuery("");
+    setSelectedUsers([]);
+  };
+
+  const handleClose = () => {
+    resetAddForm();
+    onClose();
+  };
+
+  const toggleUserSelection = (userId: string) => {
+    setSelectedUsers(prev => 
+      prev.includes(userId) 
+        ? prev.filter(id => id !== userId)
+        : [...prev, userId]
+    );
+  };
+
+  const getUserName = (user: User) => {
+    return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || t('common.unknownUser');
+  };
+
+  const getAvatarFallback = (user: User) => {
+    return `${user.firstName?.[0] || ''}${user.lastName?.[0] || ''}` || user.email?.[0]?.toUpperCase() || 'U';
+  };
+
+  const sortedParticipants = [...conversation.participants].sort(
+    (a, b) => roleOrder[a.role] - roleOrder[b.role],
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Users className="w-5 h-5" />
+            <span>{isAdding ? t("participants.addTitle") : t("participants.title")}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {isAdding
+              ? t("participants.addDescription")
+              : t("participants.count", { count: conversation.participants.length })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isAdding ? (
+          <div className="space-y-4">
+            <div className="relative">
+              <Input
+                placeholder={t("participants.searchPlaceholder")}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+              <Search className="absolute right-3 top-3 w-4 h-4 text-gray-400" />
+            </div>
+
+            {selectedUsers.length > 0 && (
+              <div className="text-sm text-gray-600">
+                {t("participants.selected", { count: selectedUsers.length })}
+              </div>
+            )}
+
+            <div className="max-h-60 overflow-y-auto space-y-2">
+              {isSearching ? (
+                <div className="text-center py-4 text-gray-500">{t("participants.searching")}</div>
+              ) : searchResults.length === 0 && searchQuery ? (
+                <div className="text-center py-4 text-gray-500">{t("participants.noUsers")}</div>
+              ) : (
+                searchResults.map((user) => {
+                  const isMember = memberIds.has(user.id);
+                  return (
+                    <div
+                      key={user.id}
+                      className="flex items-center space-x-3 p-2 hover:bg-gray-50 rounded-lg"
+                    >
+                      <Checkbox
+                        checked={isMember || selectedUsers.includes(user.id)}
+                        disabled={isMember}
+                        onCheckedChange={() => toggleUserSelection(user.id)}
+                      />
+                      <Avatar className="w-8 h-8">
+                        <AvatarImage src={user.profileImageUrl || undefined} />
+                        <AvatarFallback className="bg-blue-100 text-blue-600 text-xs">
+                          {getAvatarFallback(user)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-sm truncate">{getUserName(user)}</div>
+                        <div className="text-xs text-gray-500 truncate">{user.email}</div>
+                      </div>
+                      {isMember && (
+                        <span className="text-xs text-gray-400">{t("participants.alreadyMember")}</span>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={resetAddForm}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                {t("common.back")}
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => addParticipantsMutation.mutate(selectedUsers)}
+                disabled={selectedUsers.length === 0 || addParticipantsMutation.isPending}
+              >
+                {addParticipantsMutation.isPending ? t("participants.adding") : t("participants.add")}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {canAddMembers && (
+              <Button
+                variant="outline"
+                className="w-full justify-start"
+                onClick={() => setIsAdding(true)}
+              >
+                <UserPlus className="w-4 h-4 mr-2" />
+                {t("participants.addButton")}
+              </Button>
+            )}
+
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {sortedParticipants.map((participant) => {
+                const isSelf = participant.userId === currentUser.id;
+                const canRemove = !isSelf && canRemoveParticipant(myRole, participant.role);
+                const showActions = !isSelf && (canChangeRoles || canRemove);
+
+                return (
+                  <div key={participant.userId} className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50">
+                    <Avatar className="w-8 h-8">
+                      <AvatarImage src={participant.user.profileImageUrl || undefined} />
+                      <AvatarFallback className="bg-blue-100 text-blue-600 text-xs">
+                        {getAvatarFallback(participant.user)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {getUserName(participant.user)}
+                        {isSelf && t('common.me')}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        @{participant.user.email?.split('@')[0] || 'user'}
+                      </p>
+                    </div>
+                    {participant.role !== 'member' && (
+                      <Badge variant={participant.role === 'owner' ? 'default' : 'secondary'}>
+                        {t(`roles.${participant.role}`)}
+                      </Badge>
+                    )}
+                    {showActions && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-600">
+                            <MoreVertical className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-44">
+                          {canChangeRoles && participant.role === 'member' && (
+                            <DropdownMenuItem
+                              onClick={() => changeRoleMutation.mutate({ userId: participant.userId!, role: 'admin' })}
+                              className="flex items-center space-x-2"
+                            >
+                              <Shield className="w-4 h-4" />
+                              <span>{t("participants.makeAdmin")}</span>
+                            </DropdownMenuItem>
+                          )}
+                          {canChangeRoles && participant.role === 'admin' && (
+                            <DropdownMenuItem
+                              onClick={() => changeRoleMutation.mutate({ userId: participant.userId!, role: 'member' })}
+                              className="flex items-center space-x-2"
+                            >
+                              <ShieldOff className="w-4 h-4" />
+                              <span>{t("participants.removeAdmin")}</span>
+                            </DropdownMenuItem>
+                          )}
+                          {canChangeRoles && (
+                            <DropdownMenuItem
+                              onClick={() => changeRoleMutation.mutate({ userId: participant.userId!, role: 'owner' })}
+                              className="flex items-center space-x-2"
+                            >
+                              <Crown className="w-4 h-4" />
+                              <span>{t("participants.transferOwnership")}</span>
+                            </DropdownMenuItem>
+                          )}
+                          {canRemove && (
+                            <>
+                              {canChangeRoles && <DropdownMenuSeparator />}
+                              <DropdownMenuItem
+                                onClick={() => removeParticipantMutation.mutate(participant.userId!)}
+                                className="flex items-center space-x-2 text-red-600 focus:text-red-600"
+                              >
+                                <UserMinus className="w-4 h-4" />
+                                <span>{t("participants.remove")}</span>
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
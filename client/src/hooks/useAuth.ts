@@ -1,12 +1,17 @@
 import { useQuery } from "@tanstack/react-query";
+import { isUnauthorizedError } from "@/lib/authUtils";
 import type { User } from "@shared/schema";
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery<User>({
+  const { data, error, isLoading } = useQuery<User>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
 
+  // A user restored from the local cache stops counting once the server
+  // rejects the session; other errors (e.g. offline) keep it
+  const user = error && isUnauthorizedError(error) ? undefined : data;
+
   return {
     user,
     isLoading,
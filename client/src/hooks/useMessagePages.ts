@@ -0,0 +1,70 @@
+import { useEffect } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { messagesQueryKey, type MessagePageParam } from "@/lib/messageCache";
+import type { MessageWithSender } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+async function fetchMessagePage(conversationId: string, pageParam: MessagePageParam): Promise<MessageWithSender[]> {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  for (const [key, value] of Object.entries(pageParam)) {
+    if (value) params.set(key, value);
+  }
+  const res = await fetch(`/api/conversations/${conversationId}/messages?${params}`, {
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+  return res.json();
+}
+
+// A conversation's history loaded page by page with keyset cursors. Starts
+// from the newest messages, or from the window around `aroundMessageId`, and
+// grows in either direction.
+export function useMessagePages(conversationId: string, aroundMessageId: string | null) {
+  const query = useInfiniteQuery({
+    queryKey: aroundMessageId
+      ? [...messagesQueryKey(conversationId), { around: aroundMessageId }]
+      : messagesQueryKey(conversationId),
+    queryFn: ({ pageParam }) => fetchMessagePage(conversationId, pageParam),
+    initialPageParam: (aroundMessageId ? { around: aroundMessageId } : {}) as MessagePageParam,
+    enabled: !!conversationId,
+    getPreviousPageParam: (firstPage, _pages, firstPageParam): MessagePageParam | undefined => {
+      if (firstPage.length === 0) return undefined;
+      // A short page read backwards means the start of the conversation was reached
+      const readBackwards = !firstPageParam.after && !firstPageParam.around;
+      if (readBackwards && firstPage.length < PAGE_SIZE) return undefined;
+      return { before: firstPage[0].id };
+    },
+    // Refetches also walk forward from the first page, so this must handle
+    // every kind of page, not just ones loaded with `after`
+    getNextPageParam: (lastPage, _pages, lastPageParam): MessagePageParam | undefined => {
+      if (lastPage.length === 0) return undefined;
+      const isNewestPage = !lastPageParam.before && !lastPageParam.after && !lastPageParam.around;
+      if (isNewestPage) return undefined;
+      if (lastPageParam.after && lastPage.length < PAGE_SIZE) return undefined;
+      return { after: lastPage[lastPage.length - 1].id };
+    },
+  });
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+
+  // Outside a history window the newest messages must always be loaded. After
+  // a refetch that started from an older page, keep reading forward.
+  useEffect(() => {
+    if (!aroundMessageId && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [aroundMessageId, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return {
+    messages: query.data?.pages.flat() ?? [],
+    isLoading: query.isLoading,
+    isError: query.isError,
+    hasOlder: query.hasPreviousPage,
+    isLoadingOlder: query.isFetchingPreviousPage,
+    loadOlder: query.fetchPreviousPage,
+    hasNewer: query.hasNextPage,
+    isLoadingNewer: query.isFetchingNextPage,
+    loadNewer: query.fetchNextPage,
+  };
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getSearchTerms } from "@shared/search";
+import type { MessageSearchResult } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 300;
+// Shorter queries match too much to be useful
+const MIN_QUERY_LENGTH = 2;
+
+// Searches every conversation, or only the given one
+export function useMessageSearch(query: string, conversationId?: string) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const enabled = debouncedQuery.length >= MIN_QUERY_LENGTH;
+  const { data: results = [], isFetching } = useQuery<MessageSearchResult[]>({
+    queryKey: ["/api/search/messages", { q: debouncedQuery, conversationId }],
+    enabled,
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedQuery });
+      if (conversationId) {
+        params.set("conversationId", conversationId);
+        params.set("limit", "50");
+      }
+      const res = await fetch(`/api/search/messages?${params}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    // Results go stale as soon as new messages arrive
+    staleTime: 0,
+  });
+
+  return {
+    terms: enabled ? getSearchTerms(debouncedQuery) : [],
+    results: enabled ? results : [],
+    isSearching: enabled && isFetching,
+    isActive: enabled,
+  };
+}
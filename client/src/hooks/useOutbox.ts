@@ -0,0 +1,26 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { outbox } from "@/lib/outbox";
+import type { MessageWithSender } from "@shared/schema";
+
+// Optimistic sending for one conversation. Messages show up straight away as
+// pending, are queued while offline, turn failed if the server rejects them,
+// and can then be retried under the same id (the server ignores repeats) or
+// discarded.
+export function useOutbox(conversationId: string) {
+  const entries = useSyncExternalStore(outbox.subscribe, outbox.getSnapshot);
+  const outgoing = useMemo(
+    () => entries.filter(entry => entry.message.conversationId === conversationId),
+    [entries, conversationId],
+  );
+
+  const send = useCallback((message: MessageWithSender) => outbox.send(message), []);
+  const retry = useCallback((messageId: string) => outbox.retry(messageId), []);
+  const discard = useCallback((messageId: string) => outbox.discard(messageId), []);
+
+  return {
+    outgoing,
+    send,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,24 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { UserPresence } from "@shared/schema";
+
+// Presence of the user's contacts; kept current by `presence` socket events
+export function usePresence() {
+  const { data = [] } = useQuery<UserPresence[]>({
+    queryKey: ["/api/presence"],
+  });
+
+  const presenceByUser = useMemo(
+    () => new Map(data.map(presence => [presence.userId, presence])),
+    [data],
+  );
+
+  const getPresence = useCallback(
+    (userId: string | null | undefined) => (userId ? presenceByUser.get(userId) : undefined),
+    [presenceByUser],
+  );
+
+  return {
+    getPresence,
+  };
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useI18n } from "@/lib/i18n";
+import type { ConversationWithParticipants } from "@shared/schema";
+
+// The server repeats `typing` events while someone keeps typing; drop entries
+// that stop being refreshed in case the stop event is lost
+const TYPING_STALE_MS = 8_000;
+
+type TypingState = Record<string, Record<string, number>>; // conversationId -> userId -> last seen
+
+export function useTypingIndicators() {
+  const [typingState, setTypingState] = useState<TypingState>({});
+  const { user } = useAuth();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const handleTyping = (event: Event) => {
+      const { conversationId, userId, isTyping } = (event as CustomEvent).detail;
+      setTypingState(prev => {
+        const users = { ...prev[conversationId] };
+        if (isTyping) {
+          users[userId] = Date.now();
+        } else {
+          delete users[userId];
+        }
+        return { ...prev, [conversationId]: users };
+      });
+    };
+
+    const sweep = setInterval(() => {
+      const cutoff = Date.now() - TYPING_STALE_MS;
+      setTypingState(prev => {
+        const next: TypingState = {};
+        let changed = false;
+        for (const [conversationId, users] of Object.entries(prev)) {
+          const fresh = Object.entries(users).filter(([, lastSeen]) => lastSeen >= cutoff);
+          changed ||= fresh.length !== Object.keys(users).length;
+          next[conversationId] = Object.fromEntries(fresh);
+        }
+        return changed ? next : prev;
+      });
+    }, TYPING_STALE_MS / 2);
+
+    window.addEventListener('user_typing', handleTyping);
+    return () => {
+      window.removeEventListener('user_typing', handleTyping);
+      clearInterval(sweep);
+    };
+  }, []);
+
+  // e.g. "Alice and Bob are typing…", or null when nobody is
+  const getTypingText = useCallback((conversation: ConversationWithParticipants) => {
+    const names = Object.keys(typingState[conversation.id] ?? {})
+      .filter(userId => userId !== user?.id)
+      .map(userId => conversation.participants.find(p => p.userId === userId)?.user)
+      .filter(typingUser => !!typingUser)
+      .map(typingUser => typingUser!.firstName || typingUser!.email?.split('@')[0] || t("common.unknownUser"));
+
+    if (names.length === 0) return null;
+    if (!conversation.isGroup) return t("typing.direct");
+    if (names.length === 1) return t("typing.one", { name: names[0] });
+    if (names.length === 2) return t("typing.two", { first: names[0], second: names[1] });
+    return t("typing.many", { first: names[0], count: names.length - 1 });
+  }, [typingState, user?.id, t]);
+
+  return {
+    getTypingText,
+  };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import type { User } from "@shared/schema";
+
+export function useUserSearch(query: string) {
+  const { data: results = [], isLoading: isSearching } = useQuery<User[]>({
+    queryKey: ["/api/users/search", { q: query }],
+    enabled: query.length > 0,
+    queryFn: () => fetch(`/api/users/search?q=${encodeURIComponent(query)}`).then(res => res.json()),
+  });
+
+  return {
+    results,
+    isSearching,
+  };
+}
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from "react";
+
+interface VirtualListOptions {
+  count: number;
+  // Stable per row, so measurements survive rows being inserted before it
+  getKey: (index: number) => string;
+  estimateSize: (index: number) => number;
+  scrollRef: RefObject<HTMLElement>;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+}
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+  start: number;
+}
+
+// First index whose row ends below `offset`
+function findIndexAt(starts: number[], totalSize: number, offset: number) {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    const end = mid + 1 < starts.length ? starts[mid + 1] : totalSize;
+    if (end <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Windowed rendering for long lists of variable-height rows. Only rows near
+// the viewport are mounted; each is measured once rendered and its height is
+// remembered by key. When a row above the viewport turns out taller or
+// shorter than estimated the scroll position is shifted by the difference,
+// so the rows being read stay put.
+export function useVirtualList({ count, getKey, estimateSize, scrollRef, overscan = 600 }: VirtualListOptions) {
+  const sizesRef = useRef(new Map<string, number>());
+  const [, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  const starts: number[] = new Array(count);
+  let totalSize = 0;
+  for (let index = 0; index < count; index++) {
+    starts[index] = totalSize;
+    totalSize += sizesRef.current.get(getKey(index)) ?? estimateSize(index);
+  }
+
+  // Read by the resize observer, which outlives any one render
+  const layoutRef = useRef({ starts, getKey, estimateSize });
+  layoutRef.current = { starts, getKey, estimateSize };
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const update = () => setViewport({ scrollTop: element.scrollTop, height: element.clientHeight });
+    update();
+    element.addEventListener("scroll", update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => {
+      element.removeEventListener("scroll", update);
+      observer.disconnect();
+    };
+  }, [scrollRef.current]);
+
+  const rowObserverRef = useRef<ResizeObserver>();
+  if (!rowObserverRef.current && typeof ResizeObserver !== "undefined") {
+    rowObserverRef.current = new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const row = entry.target as HTMLElement;
+        // Rows report a zero size as they unmount
+        if (!row.isConnected) {
+          rowObserverRef.current?.unobserve(row);
+          continue;
+        }
+
+        const key = row.dataset.key!;
+        const index = Number(row.dataset.index);
+        const { starts, estimateSize } = layoutRef.current;
+        const size = entry.borderBoxSize?.[0]?.blockSize ?? row.getBoundingClientRect().height;
+        const previous = sizesRef.current.get(key) ?? estimateSize(index);
+        if (size === previous && sizesRef.current.has(key)) continue;
+
+        sizesRef.current.set(key, size);
+        changed = true;
+        const scroller = scrollRef.current;
+        if (scroller && starts[index] < scroller.scrollTop) {
+          scroller.scrollTop += size - previous;
+        }
+      }
+      if (changed) {
+        setMeasureVersion(version => version + 1);
+      }
+    });
+  }
+
+  useEffect(() => () => rowObserverRef.current?.disconnect(), []);
+
+  // Attach to each rendered row, along with data-key and data-index
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (element) {
+      rowObserverRef.current?.observe(element);
+    }
+  }, []);
+
+  const items: VirtualItem[] = [];
+  if (count > 0) {
+    const first = findIndexAt(starts, totalSize, viewport.scrollTop - overscan);
+    const bottom = viewport.scrollTop + viewport.height + overscan;
+    for (let index = first; index < count && starts[index] < bottom; index++) {
+      items.push({ index, key: getKey(index), start: starts[index] });
+    }
+  }
+
+  const scrollToIndex = useCallback((index: number, align: "start" | "center" | "end" = "start") => {
+    const element = scrollRef.current;
+    const { starts, getKey, estimateSize } = layoutRef.current;
+    if (!element || index < 0 || index >= starts.length) return;
+
+    const size = sizesRef.current.get(getKey(index)) ?? estimateSize(index);
+    let top = starts[index];
+    if (align === "center") {
+      top -= (element.clientHeight - size) / 2;
+    } else if (align === "end") {
+      top -= element.clientHeight - size;
+    }
+    element.scrollTop = Math.max(0, top);
+  }, [scrollRef]);
+
+  return {
+    items,
+    totalSize,
+    measureElement,
+    scrollToIndex,
+  };
+}
@@ -1,19 +1,35 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import { useQueryClient } from "@tanstack/react-query";
+import { outbox } from "@/lib/outbox";
+import {
+  appendCachedMessage,
+  messagesQueryKey,
+  setCachedLastMessage,
+  updateCachedMessage,
+} from "@/lib/messageCache";
+import type { ConversationWithParticipants, UserPresence } from "@shared/schema";
 
 interface WebSocketMessage {
   type: string;
   [key: string]: any;
 }
 
-export function useWebSocket(userId: string, conversationId?: string) {
+// Keeps the server's presence sweep from dropping idle but open tabs
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export type WebSocketConnection = ReturnType<typeof useWebSocket>;
+
+export function useWebSocket(userId: string) {
   const [isConnected, setIsConnected] = useState(false);
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  const heartbeatIntervalRef = useRef<NodeJS.Timeout>();
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 5;
   const queryClient = useQueryClient();
 
+  // The server identifies the user from the session cookie sent with the
+  // upgrade request; userId only gates connecting once logged in.
   const connect = useCallback(() => {
     if (!userId) return;
 
@@ -27,18 +43,27 @@ export function useWebSocket(userId: string, conversationId?: string) {
       ws.onopen = () => {
         console.log("WebSocket connected");
         setIsConnected(true);
+        if (reconnectAttempts.current > 0) {
+          // Anything pushed while disconnected was missed, messages included
+          queryClient.invalidateQueries();
+        } else {
+          // Presence changes may have been missed before the socket opened
+          queryClient.invalidateQueries({ queryKey: ["/api/presence"] });
+        }
         reconnectAttempts.current = 0;
-        
-        // Authenticate with the server
-        ws.send(JSON.stringify({
-          type: 'auth',
-          userId,
-        }));
+        // Send whatever was written while offline
+        outbox.flush();
+        heartbeatIntervalRef.current = setInterval(() => {
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify({ type: 'heartbeat' }));
+          }
+        }, HEARTBEAT_INTERVAL_MS);
       };
 
       ws.onclose = () => {
         console.log("WebSocket disconnected");
         setIsConnected(false);
+        clearInterval(heartbeatIntervalRef.current);
         
         // Attempt to reconnect with exponential backoff
         if (reconnectAttempts.current < maxReconnectAttempts) {
@@ -72,17 +97,91 @@ export function useWebSocket(userId: string, conversationId?: string) {
     console.log("Handling WebSocket message:", message);
     switch (message.type) {
       case 'new_message':
-        // Invalidate messages query for the conversation
+        // The frame carries the whole message, so merge it into the caches and
+        // only refetch when it does not follow on from what is cached
         if (message.conversationId) {
-          console.log("Invalidating queries for conversation:", message.conversationId);
-          queryClient.invalidateQueries({ 
-            queryKey: [`/api/conversations/${message.conversationId}/messages`] 
-          });
+          if (!appendCachedMessage(queryClient, message.conversationId, message.message, message.previousMessageId ?? null)) {
+            queryClient.invalidateQueries({ queryKey: messagesQueryKey(message.conversationId), exact: true });
+          }
+          if (!setCachedLastMessage(queryClient, message.message)) {
+            queryClient.invalidateQueries({ 
+              queryKey: ["/api/conversations"] 
+            });
+          }
+        }
+        window.dispatchEvent(new CustomEvent('new_message', { detail: message }));
+        break;
+      case 'message_updated':
+      case 'message_deleted':
+        // Edits and deletions can change the sidebar preview as well
+        queryClient.invalidateQueries({ 
+          queryKey: [`/api/conversations/${message.conversationId}/messages`] 
+        });
+        queryClient.invalidateQueries({ 
+          queryKey: ["/api/conversations"] 
+        });
+        if (message.type === 'message_updated') {
           queryClient.invalidateQueries({ 
-            queryKey: ["/api/conversations"] 
+            queryKey: [`/api/messages/${message.message.id}/edits`] 
           });
         }
-        window.dispatchEvent(new CustomEvent('new_message', { detail: message }));
+        window.dispatchEvent(new CustomEvent(message.type, { detail: message }));
+        break;
+      case 'reaction_changed':
+        // Totals are pushed whole; patch the one message instead of refetching
+        updateCachedMessage(queryClient, message.conversationId, message.messageId, m => ({
+          ...m,
+          reactions: message.reactions,
+        }));
+        break;
+      case 'participant_left':
+      case 'participant_added':
+      case 'participant_removed':
+      case 'participant_role_changed':
+      case 'conversation_updated':
+      case 'conversation_hidden':
+        // Refresh member lists, or drop the conversation if we were the one leaving
+        queryClient.invalidateQueries({ 
+          queryKey: ["/api/conversations"] 
+        });
+        queryClient.invalidateQueries({ 
+          queryKey: ["/api/presence"] 
+        });
+        window.dispatchEvent(new CustomEvent(message.type, { detail: message }));
+        break;
+      case 'read_receipt':
+        // Read pointers live on the participants of each conversation; move
+        // the reader's forward in place rather than refetching the list
+        queryClient.setQueryData<ConversationWithParticipants[]>(
+          ["/api/conversations"],
+          (old) => old?.map(c => c.id !== message.conversationId ? c : {
+            ...c,
+            participants: c.participants.map(p =>
+              p.userId === message.userId
+                ? { ...p, lastReadMessageId: message.messageId, lastReadAt: message.readAt }
+                : p
+            ),
+          }),
+        );
+        window.dispatchEvent(new CustomEvent('read_receipt', { detail: message }));
+        break;
+      case 'unread_count':
+        // Counts are pushed whole, so patch them in without refetching the list
+        queryClient.setQueryData<ConversationWithParticipants[]>(
+          ["/api/conversations"],
+          (old) => old?.map(c =>
+            c.id === message.conversationId ? { ...c, unreadCount: message.count } : c
+          ),
+        );
+        break;
+      case 'presence':
+        queryClient.setQueryData<UserPresence[]>(
+          ["/api/presence"],
+          (old = []) => [
+            ...old.filter(p => p.userId !== message.userId),
+            { userId: message.userId, online: message.online, lastSeenAt: message.lastSeenAt },
+          ],
+        );
         break;
       case 'typing':
         // Handle typing indicators
@@ -105,6 +204,7 @@ export function useWebSocket(userId: string, conversationId?: string) {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
     }
+    clearInterval(heartbeatIntervalRef.current);
     if (wsRef.current) {
       wsRef.current.close();
       wsRef.current = null;
@@ -122,6 +222,21 @@ export function useWebSocket(userId: string, conversationId?: string) {
     };
   }, [userId, connect, disconnect]);
 
+  // Reconnection gives up after a few attempts; start over once the browser
+  // reports the network is back
+  useEffect(() => {
+    const handleOnline = () => {
+      const readyState = wsRef.current?.readyState;
+      if (readyState === WebSocket.CONNECTING || readyState === WebSocket.OPEN) return;
+      clearTimeout(reconnectTimeoutRef.current);
+      // Counted as a reconnect, so updates missed meanwhile are refetched
+      reconnectAttempts.current = 1;
+      connect();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [connect]);
+
   return {
     isConnected,
     sendMessage,
@@ -0,0 +1,244 @@
+// Source catalog. Other locales must provide every key (see `Messages`).
+// Placeholders use {name}; entries with one/other are chosen by {count}.
+const en = {
+  common: {
+    cancel: "Cancel",
+    save: "Save",
+    saving: "Saving...",
+    back: "Back",
+    error: "Error",
+    loading: "Loading...",
+    unknownUser: "Unknown User",
+    unnamedGroup: "Unnamed Group",
+    me: " (me)",
+  },
+  auth: {
+    unauthorizedTitle: "Unauthorized",
+    unauthorizedDescription: "You are logged out. Logging in again...",
+  },
+  landing: {
+    tagline: "A modern, secure messaging platform for seamless communication with your team and friends.",
+    realtimeTitle: "Real-time Messaging",
+    realtimeDescription: "Instant message delivery with typing indicators and read receipts",
+    groupsTitle: "Group Chats",
+    groupsDescription: "Create groups and collaborate with multiple team members efficiently",
+    secureTitle: "Secure & Private",
+    secureDescription: "End-to-end encryption ensures your conversations stay private",
+    ctaTitle: "Ready to start chatting?",
+    ctaDescription: "Join thousands of users who trust TeleChat for their daily communication needs.",
+    getStarted: "Get Started",
+    responsive: "Optimized for mobile and desktop",
+  },
+  notFound: {
+    title: "404 Page Not Found",
+    description: "Did you forget to add the page to the router?",
+  },
+  home: {
+    connecting: "Connecting to TeleChat...",
+    openChats: "Open Chats",
+    selectConversation: "Select a conversation to start messaging",
+  },
+  sidebar: {
+    profileSettings: "Profile Settings",
+    logout: "Logout",
+    searchPlaceholder: "Search messages or users...",
+    loadingConversations: "Loading conversations...",
+    noConversationsFound: "No conversations found",
+    noConversations: "No conversations yet",
+    noMessages: "No messages yet",
+    yesterday: "Yesterday",
+    newChat: "New Chat",
+    messagesHeading: "Messages",
+    searchingMessages: "Searching messages...",
+    noMessagesFound: "No messages found",
+  },
+  chat: {
+    members: { one: "{count} member", other: "{count} members" },
+    online: "online",
+    offline: "offline",
+    lastSeen: "last seen {time}",
+    notFound: "Conversation not found",
+    loadingMessages: "Loading messages...",
+    loadingOlder: "Loading earlier messages...",
+    encrypted: "Messages are end-to-end encrypted",
+    inputPlaceholder: "Type a message...",
+    sendFailed: "Failed to send message. Please try again.",
+    attachFile: "Attach a file",
+    removeAttachment: "Remove attachment",
+    fileTooLargeTitle: "File too large",
+    fileTooLargeDescription: "Files can be up to {size}.",
+    unsupportedFileTitle: "Unsupported file",
+    unsupportedFileDescription: "Images, PDFs, text files, archives and Office documents can be attached.",
+    uploadFailed: "Failed to send the file. Please try again.",
+    searchInConversation: "Search in this chat",
+    searchPlaceholder: "Search messages...",
+    searchCount: "{current} of {total}",
+    searchNoResults: "No results",
+    searchOlder: "Older match",
+    searchNewer: "Newer match",
+    closeSearch: "Close search",
+    backToLatest: "Back to latest",
+    today: "Today",
+    yesterday: "Yesterday",
+  },
+  chatMenu: {
+    settings: "Chat settings",
+    manageParticipants: "Manage participants",
+    leave: "Leave",
+  },
+  chatSettings: {
+    title: "Chat settings",
+    name: "Chat name",
+    participants: "Participants",
+    info: "Chat info",
+    type: "Type:",
+    group: "Group chat",
+    direct: "Direct chat",
+    participantCount: "Participants:",
+    leave: "Leave chat",
+  },
+  leave: {
+    title: "Leave chat",
+    groupDescription: "You will no longer receive messages from this chat.",
+    directDescription: "The chat will be hidden from your list until a new message arrives.",
+    confirm: "Leave",
+    failed: "Could not leave the chat. Please try again.",
+  },
+  roles: {
+    owner: "Owner",
+    admin: "Admin",
+    member: "Member",
+  },
+  participants: {
+    title: "Manage participants",
+    count: { one: "{count} participant", other: "{count} participants" },
+    addTitle: "Add participants",
+    addDescription: "Choose people to invite to this chat",
+    addButton: "Add participants",
+    searchPlaceholder: "Search by name or email...",
+    selected: "{count} selected",
+    searching: "Searching...",
+    noUsers: "No users found",
+    alreadyMember: "Member",
+    add: "Add",
+    adding: "Adding...",
+    makeAdmin: "Make admin",
+    removeAdmin: "Remove admin",
+    transferOwnership: "Transfer ownership",
+    remove: "Remove",
+    addFailed: "Could not add participants.",
+    duplicate: "Those users are already in this chat.",
+    changeRoleFailed: "Could not change the role.",
+    removeFailed: "Could not remove the participant.",
+  },
+  groupInfo: {
+    name: "Chat name",
+    description: "Description",
+    descriptionPlaceholder: "Tell members what this chat is about",
+    avatarUrl: "Image URL",
+    avatarUrlInvalid: "Use an image address starting with https://",
+    savedTitle: "Saved",
+    savedDescription: "The chat info was updated.",
+    invalid: "Check your input. The image address must be a valid URL.",
+    failed: "Could not update the chat info.",
+  },
+  newChat: {
+    title: "New Chat",
+    description: "Start a new conversation or create a group chat",
+    direct: "Direct Message",
+    group: "Group Chat",
+    searchUsers: "Search Users",
+    searchPlaceholder: "Type a name or email...",
+    searching: "Searching...",
+    noUsers: "No users found",
+    groupName: "Group Name",
+    groupNamePlaceholder: "Enter group name...",
+    addMembers: "Add Members",
+    addMembersPlaceholder: "Search users to add...",
+    membersSelected: { one: "{count} member selected", other: "{count} members selected" },
+    createGroup: "Create Group",
+    creating: "Creating...",
+    createChatFailed: "Failed to create chat. Please try again.",
+    createGroupFailed: "Failed to create group. Please try again.",
+    groupValidation: "Please enter a group name and select at least one user.",
+  },
+  message: {
+    translatedTo: "Translated to {language}",
+    showOriginal: "Show original",
+    showTranslation: "Show translation",
+    translate: "Translate",
+    translating: "Translating...",
+    translationUnavailableTitle: "Translation unavailable",
+    translationUnavailableDescription: "This message could not be translated.",
+    sent: "Sent",
+    read: "Read",
+    sending: "Sending",
+    notSent: "Not sent. Tap to retry",
+    retry: "Retry",
+    discard: "Discard",
+    seenBy: "Seen by",
+    notSeenYet: "Not seen yet",
+    reply: "Reply",
+    replyingTo: "Replying to {name}",
+    cancelReply: "Cancel reply",
+    replyToDeleted: "Original message was deleted",
+    messageNotLoaded: "This message could not be loaded.",
+    actions: "Message actions",
+    edit: "Edit",
+    delete: "Delete",
+    edited: "edited",
+    deleted: "This message was deleted",
+    editing: "Editing message",
+    cancelEdit: "Cancel editing",
+    editFailed: "Could not edit the message.",
+    deleteFailed: "Could not delete the message.",
+    deleteTitle: "Delete message",
+    deleteDescription: "The message will be deleted for everyone in this chat.",
+    historyTitle: "Edit history",
+    historyDescription: "Earlier versions of this message",
+    historyCurrent: "Current version",
+    historyEmpty: "No earlier versions.",
+    attachment: "Attachment",
+    download: "Download {name}",
+    react: "Add reaction",
+    reactionFailed: "Failed to update the reaction.",
+  },
+  typing: {
+    direct: "typing…",
+    one: "{name} is typing…",
+    two: "{first} and {second} are typing…",
+    many: { one: "{first} and {count} other are typing…", other: "{first} and {count} others are typing…" },
+  },
+  system: {
+    participantLeft: "{actor} left the chat",
+    participantAdded: "{actor} added {user}",
+    participantRemoved: "{actor} removed {user}",
+    roleChanged: "{user} is now {role}",
+    conversationRenamed: "{actor} renamed the chat to \"{name}\"",
+    conversationUpdated: "{actor} updated the chat info",
+  },
+  settings: {
+    title: "Settings",
+    subtitle: "Manage your chat preferences and settings",
+    profileTitle: "Profile Information",
+    profileDescription: "Your account details and basic information",
+    email: "Email",
+    username: "Username",
+    languageTitle: "Language Settings",
+    languageDescription: "Choose your preferred language and translation options",
+    defaultLanguage: "Default Language",
+    selectLanguage: "Select a language",
+    defaultLanguageHint: "This will be used as your primary interface language",
+    autoTranslate: "Auto Translation",
+    autoTranslateHint: "Automatically translate messages to your preferred language",
+    translateTo: "Translate messages to",
+    selectTargetLanguage: "Select target language",
+    translateToHint: "Messages will be automatically translated to this language",
+    saveSettings: "Save Settings",
+    updatedTitle: "Settings updated",
+    updatedDescription: "Your settings have been saved successfully.",
+    updateFailed: "Failed to update settings",
+  },
+};
+
+export default en;
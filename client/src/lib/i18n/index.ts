@@ -0,0 +1,78 @@
+import { useCallback } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { enUS, ko as koLocale } from "date-fns/locale";
+import { useAuth } from "@/hooks/useAuth";
+import en from "./en";
+import ko from "./ko";
+
+export type Messages = typeof en;
+export type Locale = "en" | "ko";
+
+interface PluralForms {
+  one: string;
+  other: string;
+}
+
+// Dotted paths to every message, e.g. "chat.inputPlaceholder"
+type MessagePaths<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralForms ? K : `${K}.${MessagePaths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, Messages> = { en, ko };
+const dateLocales = { en: enUS, ko: koLocale };
+
+// Languages without a catalog fall back to English
+export function resolveLocale(language: string | null | undefined): Locale {
+  return language?.toLowerCase().startsWith("ko") ? "ko" : "en";
+}
+
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  let entry: unknown = catalogs[locale];
+  for (const part of key.split(".")) {
+    entry = (entry as Record<string, unknown> | undefined)?.[part];
+  }
+
+  if (entry && typeof entry === "object") {
+    const forms = entry as PluralForms;
+    const count = Number(params.count ?? 0);
+    entry = new Intl.PluralRules(locale).select(count) === "one" ? forms.one : forms.other;
+  }
+  if (typeof entry !== "string") return key;
+
+  return entry.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match,
+  );
+}
+
+// UI strings and dates in the signed-in user's preferred language, or the
+// browser language before login
+export function useI18n() {
+  const { user } = useAuth();
+  const locale = resolveLocale(user?.preferredLanguage ?? navigator.language);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale],
+  );
+
+  const formatDate = useCallback(
+    (date: Date | string, pattern: string) => format(new Date(date), pattern, { locale: dateLocales[locale] }),
+    [locale],
+  );
+
+  // e.g. "5 minutes ago"
+  const formatRelative = useCallback(
+    (date: Date | string) => formatDistanceToNow(new Date(date), { addSuffix: true, locale: dateLocales[locale] }),
+    [locale],
+  );
+
+  return {
+    locale,
+    t,
+    formatDate,
+    formatRelative,
+  };
+}
@@ -0,0 +1,244 @@
+import type { Messages } from "./index";
+
+const ko: Messages = {
+  common: {
+    cancel: "취소",
+    save: "저장",
+    saving: "저장 중...",
+    back: "뒤로",
+    error: "오류",
+    loading: "불러오는 중...",
+    unknownUser: "알 수 없는 사용자",
+    unnamedGroup: "이름 없는 그룹",
+    me: " (나)",
+  },
+  auth: {
+    unauthorizedTitle: "인증 필요",
+    unauthorizedDescription: "로그아웃되었습니다. 다시 로그인하는 중...",
+  },
+  landing: {
+    tagline: "팀과 친구들과 끊김 없이 소통할 수 있는 현대적이고 안전한 메신저입니다.",
+    realtimeTitle: "실시간 메시지",
+    realtimeDescription: "입력 중 표시와 읽음 확인을 지원하는 즉각적인 메시지 전송",
+    groupsTitle: "그룹 채팅",
+    groupsDescription: "그룹을 만들어 여러 팀원과 효율적으로 협업하세요",
+    secureTitle: "안전한 대화",
+    secureDescription: "종단 간 암호화로 대화 내용을 안전하게 보호합니다",
+    ctaTitle: "지금 대화를 시작해 볼까요?",
+    ctaDescription: "매일의 소통을 TeleChat에 맡기는 수많은 사용자와 함께하세요.",
+    getStarted: "시작하기",
+    responsive: "모바일과 데스크톱에 최적화",
+  },
+  notFound: {
+    title: "404 페이지를 찾을 수 없습니다",
+    description: "라우터에 페이지를 추가하는 것을 잊으셨나요?",
+  },
+  home: {
+    connecting: "TeleChat에 연결하는 중...",
+    openChats: "채팅 목록",
+    selectConversation: "대화를 선택해 메시지를 시작하세요",
+  },
+  sidebar: {
+    profileSettings: "프로필 설정",
+    logout: "로그아웃",
+    searchPlaceholder: "메시지 또는 사용자 검색...",
+    loadingConversations: "대화 목록을 불러오는 중...",
+    noConversationsFound: "검색된 대화가 없습니다",
+    noConversations: "아직 대화가 없습니다",
+    noMessages: "아직 메시지가 없습니다",
+    yesterday: "어제",
+    newChat: "새 채팅",
+    messagesHeading: "메시지",
+    searchingMessages: "메시지를 검색하는 중...",
+    noMessagesFound: "검색된 메시지가 없습니다",
+  },
+  chat: {
+    members: { one: "멤버 {count}명", other: "멤버 {count}명" },
+    online: "온라인",
+    offline: "오프라인",
+    lastSeen: "{time} 접속",
+    notFound: "대화를 찾을 수 없습니다",
+    loadingMessages: "메시지를 불러오는 중...",
+    loadingOlder: "이전 메시지를 불러오는 중...",
+    encrypted: "메시지는 종단 간 암호화됩니다",
+    inputPlaceholder: "메시지를 입력하세요...",
+    sendFailed: "메시지를 보내지 못했습니다. 다시 시도해 주세요.",
+    attachFile: "파일 첨부",
+    removeAttachment: "첨부 취소",
+    fileTooLargeTitle: "파일이 너무 큽니다",
+    fileTooLargeDescription: "최대 {size}까지 첨부할 수 있습니다.",
+    unsupportedFileTitle: "지원하지 않는 파일",
+    unsupportedFileDescription: "이미지, PDF, 텍스트, 압축 파일, Office 문서를 첨부할 수 있습니다.",
+    uploadFailed: "파일을 보내지 못했습니다. 다시 시도해 주세요.",
+    searchInConversation: "채팅방 내 검색",
+    searchPlaceholder: "메시지 검색...",
+    searchCount: "{current}/{total}",
+    searchNoResults: "결과 없음",
+    searchOlder: "이전 결과",
+    searchNewer: "다음 결과",
+    closeSearch: "검색 닫기",
+    backToLatest: "최신 메시지로",
+    today: "오늘",
+    yesterday: "어제",
+  },
+  chatMenu: {
+    settings: "채팅방 설정",
+    manageParticipants: "참가자 관리",
+    leave: "나가기",
+  },
+  chatSettings: {
+    title: "채팅방 설정",
+    name: "채팅방 이름",
+    participants: "참가자",
+    info: "채팅방 정보",
+    type: "채팅방 유형:",
+    group: "그룹 채팅",
+    direct: "개인 채팅",
+    participantCount: "참가자 수:",
+    leave: "채팅방 나가기",
+  },
+  leave: {
+    title: "채팅방 나가기",
+    groupDescription: "채팅방을 나가면 더 이상 메시지를 받을 수 없습니다.",
+    directDescription: "채팅 목록에서 숨겨집니다. 새 메시지가 오면 다시 표시됩니다.",
+    confirm: "나가기",
+    failed: "채팅방을 나가지 못했습니다. 다시 시도해 주세요.",
+  },
+  roles: {
+    owner: "방장",
+    admin: "관리자",
+    member: "멤버",
+  },
+  participants: {
+    title: "참가자 관리",
+    count: { one: "참가자 {count}명", other: "참가자 {count}명" },
+    addTitle: "참가자 추가",
+    addDescription: "채팅방에 초대할 사용자를 선택하세요",
+    addButton: "참가자 추가",
+    searchPlaceholder: "이름 또는 이메일로 검색...",
+    selected: "{count}명 선택됨",
+    searching: "검색 중...",
+    noUsers: "사용자를 찾을 수 없습니다",
+    alreadyMember: "참가 중",
+    add: "추가",
+    adding: "추가 중...",
+    makeAdmin: "관리자로 지정",
+    removeAdmin: "관리자 해제",
+    transferOwnership: "방장 위임",
+    remove: "내보내기",
+    addFailed: "참가자를 추가하지 못했습니다.",
+    duplicate: "이미 참가 중인 사용자입니다.",
+    changeRoleFailed: "권한을 변경하지 못했습니다.",
+    removeFailed: "참가자를 내보내지 못했습니다.",
+  },
+  groupInfo: {
+    name: "채팅방 이름",
+    description: "설명",
+    descriptionPlaceholder: "채팅방 소개를 입력하세요",
+    avatarUrl: "대표 이미지 URL",
+    avatarUrlInvalid: "https://로 시작하는 이미지 주소를 입력하세요",
+    savedTitle: "저장됨",
+    savedDescription: "채팅방 정보가 변경되었습니다.",
+    invalid: "입력값을 확인해 주세요. 이미지 주소는 올바른 URL이어야 합니다.",
+    failed: "채팅방 정보를 변경하지 못했습니다.",
+  },
+  newChat: {
+    title: "새 채팅",
+    description: "새 대화를 시작하거나 그룹 채팅을 만드세요",
+    direct: "개인 메시지",
+    group: "그룹 채팅",
+    searchUsers: "사용자 검색",
+    searchPlaceholder: "이름 또는 이메일을 입력하세요...",
+    searching: "검색 중...",
+    noUsers: "사용자를 찾을 수 없습니다",
+    groupName: "그룹 이름",
+    groupNamePlaceholder: "그룹 이름을 입력하세요...",
+    addMembers: "멤버 추가",
+    addMembersPlaceholder: "추가할 사용자 검색...",
+    membersSelected: { one: "{count}명 선택됨", other: "{count}명 선택됨" },
+    createGroup: "그룹 만들기",
+    creating: "만드는 중...",
+    createChatFailed: "채팅을 만들지 못했습니다. 다시 시도해 주세요.",
+    createGroupFailed: "그룹을 만들지 못했습니다. 다시 시도해 주세요.",
+    groupValidation: "그룹 이름을 입력하고 한 명 이상 선택해 주세요.",
+  },
+  message: {
+    translatedTo: "{language}(으)로 번역됨",
+    showOriginal: "원문 보기",
+    showTranslation: "번역 보기",
+    translate: "번역",
+    translating: "번역 중...",
+    translationUnavailableTitle: "번역할 수 없음",
+    translationUnavailableDescription: "이 메시지를 번역하지 못했습니다.",
+    sent: "전송됨",
+    read: "읽음",
+    sending: "전송 중",
+    notSent: "전송 실패. 눌러서 다시 시도",
+    retry: "다시 시도",
+    discard: "삭제",
+    seenBy: "읽은 사람",
+    notSeenYet: "아직 아무도 읽지 않았습니다",
+    reply: "답장",
+    replyingTo: "{name}님에게 답장",
+    cancelReply: "답장 취소",
+    replyToDeleted: "삭제된 메시지입니다",
+    messageNotLoaded: "메시지를 불러올 수 없습니다.",
+    actions: "메시지 메뉴",
+    edit: "수정",
+    delete: "삭제",
+    edited: "수정됨",
+    deleted: "삭제된 메시지입니다",
+    editing: "메시지 수정",
+    cancelEdit: "수정 취소",
+    editFailed: "메시지를 수정하지 못했습니다.",
+    deleteFailed: "메시지를 삭제하지 못했습니다.",
+    deleteTitle: "메시지 삭제",
+    deleteDescription: "이 채팅방의 모든 사람에게서 메시지가 삭제됩니다.",
+    historyTitle: "수정 기록",
+    historyDescription: "이 메시지의 이전 버전",
+    historyCurrent: "현재 버전",
+    historyEmpty: "이전 버전이 없습니다.",
+    attachment: "첨부 파일",
+    download: "{name} 다운로드",
+    react: "반응 추가",
+    reactionFailed: "반응을 변경하지 못했습니다.",
+  },
+  typing: {
+    direct: "입력 중…",
+    one: "{name}님이 입력 중…",
+    two: "{first}님과 {second}님이 입력 중…",
+    many: { one: "{first}님 외 {count}명이 입력 중…", other: "{first}님 외 {count}명이 입력 중…" },
+  },
+  system: {
+    participantLeft: "{actor}님이 나갔습니다",
+    participantAdded: "{actor}님이 {user}님을 초대했습니다",
+    participantRemoved: "{actor}님이 {user}님을 내보냈습니다",
+    roleChanged: "{user}님이 {role}이(가) 되었습니다",
+    conversationRenamed: "{actor}님이 채팅방 이름을 \"{name}\"(으)로 변경했습니다",
+    conversationUpdated: "{actor}님이 채팅방 정보를 변경했습니다",
+  },
+  settings: {
+    title: "설정",
+    subtitle: "채팅 환경과 설정을 관리하세요",
+    profileTitle: "프로필 정보",
+    profileDescription: "계정 정보와 기본 정보",
+    email: "이메일",
+    username: "사용자 이름",
+    languageTitle: "언어 설정",
+    languageDescription: "사용할 언어와 번역 옵션을 선택하세요",
+    defaultLanguage: "기본 언어",
+    selectLanguage: "언어 선택",
+    defaultLanguageHint: "앱 화면에 표시되는 기본 언어로 사용됩니다",
+    autoTranslate: "자동 번역",
+    autoTranslateHint: "받은 메시지를 선택한 언어로 자동 번역합니다",
+    translateTo: "번역할 언어",
+    selectTargetLanguage: "번역할 언어 선택",
+    translateToHint: "메시지가 이 언어로 자동 번역됩니다",
+    saveSettings: "설정 저장",
+    updatedTitle: "설정이 저장되었습니다",
+    updatedDescription: "설정이 성공적으로 저장되었습니다.",
+    updateFailed: "설정을 저장하지 못했습니다",
+  },
+};
+
+export default ko;
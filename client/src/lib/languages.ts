@@ -0,0 +1,15 @@
+export const languages = [
+  { code: "ko", name: "한국어" },
+  { code: "en", name: "English" },
+  { code: "ja", name: "日本語" },
+  { code: "zh", name: "中文" },
+  { code: "es", name: "Español" },
+  { code: "fr", name: "Français" },
+  { code: "de", name: "Deutsch" },
+  { code: "ru", name: "Русский" },
+];
+
+export function getLanguageName(code: string | null | undefined) {
+  if (!code) return undefined;
+  return languages.find(lang => lang.code === code)?.name ?? code.toUpperCase();
+}
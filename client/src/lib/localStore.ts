@@ -0,0 +1,73 @@
+// Thin promise wrapper over the browser's IndexedDB, holding what the app
+// keeps between visits: cached query data and unsent messages.
+
+const DATABASE_NAME = "telechat";
+const DATABASE_VERSION = 1;
+
+export type StoreName = "queries" | "outbox";
+
+let databasePromise: Promise<IDBDatabase> | undefined;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      // Keyed by query hash
+      database.createObjectStore("queries");
+      database.createObjectStore("outbox", { keyPath: "message.id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    databasePromise = undefined;
+    throw error;
+  });
+  return databasePromise;
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await openDatabase();
+  return requestToPromise(run(database.transaction(storeName, mode).objectStore(storeName)));
+}
+
+export const localStore = {
+  getAll<T>(storeName: StoreName): Promise<T[]> {
+    return withStore(storeName, "readonly", store => store.getAll());
+  },
+
+  async put(storeName: StoreName, value: unknown, key?: string): Promise<void> {
+    await withStore(storeName, "readwrite", store => store.put(value, key));
+  },
+
+  async delete(storeName: StoreName, key: string): Promise<void> {
+    await withStore(storeName, "readwrite", store => store.delete(key));
+  },
+
+  // Everything belongs to the signed-in user, so signing out drops it all
+  async clear(): Promise<void> {
+    const database = await openDatabase();
+    const transaction = database.transaction(["queries", "outbox"], "readwrite");
+    transaction.objectStore("queries").clear();
+    transaction.objectStore("outbox").clear();
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+};
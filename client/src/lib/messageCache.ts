@@ -0,0 +1,89 @@
+import type { InfiniteData, QueryClient } from "@tanstack/react-query";
+import type { ConversationWithParticipants, MessageWithSender } from "@shared/schema";
+
+// Cursor for one page of a conversation; empty for the newest page
+export type MessagePageParam = { before?: string; after?: string; around?: string };
+
+export type MessagePages = InfiniteData<MessageWithSender[], MessagePageParam>;
+
+// Every cached view of a conversation (latest pages and history windows)
+// shares this key prefix
+export function messagesQueryKey(conversationId: string) {
+  return [`/api/conversations/${conversationId}/messages`];
+}
+
+// Apply a change to one message wherever it is cached
+export function updateCachedMessage(
+  queryClient: QueryClient,
+  conversationId: string,
+  messageId: string,
+  update: (message: MessageWithSender) => MessageWithSender,
+) {
+  queryClient.setQueriesData<MessagePages>(
+    { queryKey: messagesQueryKey(conversationId) },
+    (data) => data && {
+      ...data,
+      pages: data.pages.map(page => page.map(m => (m.id === messageId ? update(m) : m))),
+    },
+  );
+}
+
+// Add a pushed message to every cached view that ends with the message before
+// it. Returns false when the latest pages do not reach that message, meaning
+// some messages were missed and the cache has to be refetched.
+export function appendCachedMessage(
+  queryClient: QueryClient,
+  conversationId: string,
+  message: MessageWithSender,
+  previousMessageId: string | null,
+) {
+  let isContiguous = true;
+  const cachedViews = queryClient.getQueriesData<MessagePages>({ queryKey: messagesQueryKey(conversationId) });
+  for (const [queryKey, data] of cachedViews) {
+    if (!data || data.pages.length === 0) continue;
+
+    const lastPage = data.pages[data.pages.length - 1];
+    if (data.pages.some(page => page.some(m => m.id === message.id))) continue;
+
+    const lastMessageId = lastPage[lastPage.length - 1]?.id ?? null;
+    if (lastMessageId === previousMessageId) {
+      queryClient.setQueryData<MessagePages>(queryKey, {
+        ...data,
+        pages: [...data.pages.slice(0, -1), [...lastPage, message]],
+      });
+    } else if (queryKey.length === 1) {
+      // History windows may simply stop short of the present; only the
+      // latest view is expected to end with the newest message
+      isContiguous = false;
+    }
+  }
+  return isContiguous;
+}
+
+// Add a message this client just sent to the end of the latest view. It is
+// the newest message the sender knows of, so there is nothing to check it
+// against the way pushed messages are.
+export function addSentMessage(queryClient: QueryClient, message: MessageWithSender) {
+  queryClient.setQueryData<MessagePages>(messagesQueryKey(message.conversationId!), (data) => {
+    if (!data || data.pages.length === 0) return data;
+    if (data.pages.some(page => page.some(m => m.id === message.id))) return data;
+
+    const lastPage = data.pages[data.pages.length - 1];
+    return { ...data, pages: [...data.pages.slice(0, -1), [...lastPage, message]] };
+  });
+}
+
+// Show a message as its conversation's preview and move the conversation to
+// the top of the sidebar. Returns false when the conversation is not cached.
+export function setCachedLastMessage(queryClient: QueryClient, message: MessageWithSender) {
+  const conversations = queryClient.getQueryData<ConversationWithParticipants[]>(["/api/conversations"]);
+  const conversation = conversations?.find(c => c.id === message.conversationId);
+  if (!conversations || !conversation) return false;
+
+  const updated = { ...conversation, lastMessage: message, updatedAt: message.createdAt };
+  queryClient.setQueryData<ConversationWithParticipants[]>(
+    ["/api/conversations"],
+    [updated, ...conversations.filter(c => c.id !== conversation.id)],
+  );
+  return true;
+}
@@ -0,0 +1,142 @@
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { localStore } from "@/lib/localStore";
+import { addSentMessage, setCachedLastMessage } from "@/lib/messageCache";
+import type { MessageWithSender } from "@shared/schema";
+
+// Pending messages are queued or on their way; failed ones were rejected by
+// the server and wait for the user to retry or discard them
+export type OutgoingStatus = "pending" | "failed";
+
+// A message sent from this browser that the server has not confirmed yet. The
+// message is shown as written until then, under the id the server will keep.
+export interface OutgoingMessage {
+  message: MessageWithSender;
+  status: OutgoingStatus;
+}
+
+type Listener = () => void;
+
+// Messages waiting to be confirmed, shared by every chat view and saved
+// locally so they survive a reload. They are sent one at a time in the order
+// they were written; when the network is down the queue stops and is flushed
+// again once the connection returns. Entries are replaced rather than mutated
+// so React can compare snapshots.
+class Outbox {
+  private entries: OutgoingMessage[] = [];
+  private listeners = new Set<Listener>();
+  private isFlushing = false;
+  private flushRequested = false;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.entries;
+
+  // Load messages left unsent by an earlier visit
+  async restore() {
+    const saved = await localStore.getAll<OutgoingMessage>("outbox");
+    const restoredIds = new Set(saved.map(entry => entry.message.id));
+    const byCreation = (a: OutgoingMessage, b: OutgoingMessage) =>
+      new Date(a.message.createdAt!).getTime() - new Date(b.message.createdAt!).getTime();
+    this.set([...saved, ...this.entries.filter(entry => !restoredIds.has(entry.message.id))].sort(byCreation));
+  }
+
+  send(message: MessageWithSender) {
+    this.save({ message, status: "pending" });
+    this.flush();
+  }
+
+  retry(messageId: string) {
+    const entry = this.entries.find(entry => entry.message.id === messageId);
+    if (!entry) return;
+    this.save({ ...entry, status: "pending" });
+    this.flush();
+  }
+
+  discard(messageId: string) {
+    this.remove(messageId);
+  }
+
+  // Send every pending message in order. Safe to call at any time; a call
+  // during a flush makes it look for new messages once more at the end.
+  flush() {
+    if (this.isFlushing) {
+      this.flushRequested = true;
+      return;
+    }
+    this.isFlushing = true;
+    this.drain().finally(() => {
+      this.isFlushing = false;
+      if (this.flushRequested) {
+        this.flushRequested = false;
+        this.flush();
+      }
+    });
+  }
+
+  private async drain() {
+    const attempted = new Set<string>();
+    for (;;) {
+      const next = this.entries.find(entry => entry.status === "pending" && !attempted.has(entry.message.id));
+      if (!next) return;
+      attempted.add(next.message.id);
+      if (!(await this.deliver(next.message))) return;
+    }
+  }
+
+  // Resolves to false when the network is unreachable and the queue should wait
+  private async deliver(message: MessageWithSender) {
+    try {
+      const response = await apiRequest('POST', `/api/conversations/${message.conversationId}/messages`, {
+        id: message.id,
+        content: message.content,
+        replyToId: message.replyToId ?? undefined,
+      });
+      const sent: MessageWithSender = await response.json();
+      addSentMessage(queryClient, sent);
+      if (!setCachedLastMessage(queryClient, sent)) {
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      }
+      this.remove(message.id);
+      return true;
+    } catch (error) {
+      // fetch rejects with a TypeError when no response arrives at all
+      if (error instanceof TypeError) return false;
+
+      console.error("Failed to send message:", error);
+      const entry = this.entries.find(entry => entry.message.id === message.id);
+      if (entry) {
+        this.save({ ...entry, status: "failed" });
+      }
+      return true;
+    }
+  }
+
+  private save(entry: OutgoingMessage) {
+    const exists = this.entries.some(e => e.message.id === entry.message.id);
+    this.set(exists
+      ? this.entries.map(e => (e.message.id === entry.message.id ? entry : e))
+      : [...this.entries, entry]);
+    localStore.put("outbox", entry).catch(error => {
+      console.error("Failed to save outgoing message:", error);
+    });
+  }
+
+  private remove(messageId: string) {
+    this.set(this.entries.filter(entry => entry.message.id !== messageId));
+    localStore.delete("outbox", messageId).catch(error => {
+      console.error("Failed to remove outgoing message:", error);
+    });
+  }
+
+  private set(entries: OutgoingMessage[]) {
+    this.entries = entries;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const outbox = new Outbox();
@@ -0,0 +1,77 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import { localStore } from "@/lib/localStore";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { MessagePages } from "@/lib/messageCache";
+
+// Newest messages kept per conversation; older history is fetched as needed
+const RECENT_MESSAGE_COUNT = 50;
+const WRITE_DELAY_MS = 1_000;
+
+interface PersistedQuery {
+  queryKey: QueryKey;
+  data: unknown;
+}
+
+const latestMessagesKey = /^\/api\/conversations\/[^/]+\/messages$/;
+
+// The signed-in user, the conversation list and the latest view of each
+// conversation; search results and history windows are not worth keeping
+function shouldPersist(queryKey: QueryKey) {
+  if (queryKey.length !== 1 || typeof queryKey[0] !== "string") return false;
+  const [url] = queryKey;
+  return url === "/api/auth/user" || url === "/api/conversations" || latestMessagesKey.test(url);
+}
+
+// Only the newest messages, as a single newest page so a refetch starts from it
+function trimForStorage(queryKey: QueryKey, data: unknown) {
+  if (!latestMessagesKey.test(queryKey[0] as string)) return data;
+  const recent = (data as MessagePages).pages.flat().slice(-RECENT_MESSAGE_COUNT);
+  return { pages: [recent], pageParams: [{}] };
+}
+
+// Load the saved queries into the cache so the app can render before the
+// network answers. They are marked stale, so each is refetched once used.
+export async function restoreQueryCache(queryClient: QueryClient) {
+  const saved = await localStore.getAll<PersistedQuery>("queries");
+  for (const { queryKey, data } of saved) {
+    queryClient.setQueryData(queryKey, data);
+  }
+  await queryClient.invalidateQueries({ refetchType: "none" });
+}
+
+// Save persisted queries whenever their data changes, whether fetched or
+// patched from a socket event. Writes are batched per query. Everything is
+// dropped once the server says the session has ended.
+export function persistQueryCache(queryClient: QueryClient) {
+  const pendingWrites = new Map<string, ReturnType<typeof setTimeout>>();
+
+  return queryClient.getQueryCache().subscribe(event => {
+    if (event.type !== "updated") return;
+    const { query } = event;
+
+    if (event.action.type === "error" && isUnauthorizedError(event.action.error)) {
+      Array.from(pendingWrites.values()).forEach(timeout => clearTimeout(timeout));
+      pendingWrites.clear();
+      localStore.clear().catch(error => {
+        console.error("Failed to clear the local cache:", error);
+      });
+      return;
+    }
+    if (event.action.type !== "success") return;
+    if (!shouldPersist(query.queryKey)) return;
+
+    clearTimeout(pendingWrites.get(query.queryHash));
+    pendingWrites.set(query.queryHash, setTimeout(() => {
+      pendingWrites.delete(query.queryHash);
+      if (query.state.data === undefined) return;
+
+      const record: PersistedQuery = {
+        queryKey: query.queryKey,
+        data: trimForStorage(query.queryKey, query.state.data),
+      };
+      localStore.put("queries", record, query.queryHash).catch(error => {
+        console.error("Failed to save query to the local cache:", error);
+      });
+    }, WRITE_DELAY_MS));
+  });
+}
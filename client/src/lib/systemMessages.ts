@@ -0,0 +1,35 @@
+import type { Message } from "@shared/schema";
+import type { MessageKey, MessageParams } from "@/lib/i18n";
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// Render a system message in the reader's language from its metadata. The
+// stored content (English) is used for rows without usable metadata.
+export function formatSystemMessage(
+  message: Pick<Message, "content" | "metadata">,
+  actorName: string,
+  t: Translate,
+): string {
+  const metadata = message.metadata;
+  if (!metadata) return message.content;
+
+  switch (metadata.event) {
+    case "participant_left":
+      return t("system.participantLeft", { actor: actorName });
+    case "participant_added":
+      if (!metadata.userName) return message.content;
+      return t("system.participantAdded", { actor: actorName, user: metadata.userName });
+    case "participant_removed":
+      if (!metadata.userName) return message.content;
+      return t("system.participantRemoved", { actor: actorName, user: metadata.userName });
+    case "role_changed":
+      if (!metadata.userName) return message.content;
+      return t("system.roleChanged", { user: metadata.userName, role: t(`roles.${metadata.role}`) });
+    case "conversation_updated":
+      return metadata.name
+        ? t("system.conversationRenamed", { actor: actorName, name: metadata.name })
+        : t("system.conversationUpdated", { actor: actorName });
+    default:
+      return message.content;
+  }
+}
@@ -1,5 +1,17 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { queryClient } from "./lib/queryClient";
+import { restoreQueryCache, persistQueryCache } from "./lib/queryPersistence";
+import { outbox } from "./lib/outbox";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Start from what was cached locally so chats render before (or without)
+// the network; the app still works when local storage is unavailable
+Promise.all([restoreQueryCache(queryClient), outbox.restore()])
+  .catch((error) => {
+    console.error("Failed to restore the local cache:", error);
+  })
+  .finally(() => {
+    persistQueryCache(queryClient);
+    createRoot(document.getElementById("root")!).render(<App />);
+  });
@@ -9,24 +9,16 @@ import { Label } from "@/components/ui/label";
 import { ArrowLeft, Globe, Languages } from "lucide-react";
 import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { languages } from "@/lib/languages";
+import { useI18n } from "@/lib/i18n";
 import type { User, UpdateUserSettings } from "@shared/schema";
 
-const languages = [
-  { code: "ko", name: "한국어" },
-  { code: "en", name: "English" },
-  { code: "ja", name: "日本語" },
-  { code: "zh", name: "中文" },
-  { code: "es", name: "Español" },
-  { code: "fr", name: "Français" },
-  { code: "de", name: "Deutsch" },
-  { code: "ru", name: "Русский" },
-];
-
 export default function Settings() {
   const [selectedLanguage, setSelectedLanguage] = useState("ko");
   const [autoTranslate, setAutoTranslate] = useState(false);
   const [translateToLanguage, setTranslateToLanguage] = useState("en");
   const { toast } = useToast();
+  const { t } = useI18n();
   const queryClient = useQueryClient();
 
   const { data: user } = useQuery<User>({
@@ -48,15 +40,19 @@ export default function Settings() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      // Loaded messages carry translations for the old preference
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).endsWith("/messages"),
+      });
       toast({
-        title: "Settings updated",
-        description: "Your settings have been saved successfully.",
+        title: t("settings.updatedTitle"),
+        description: t("settings.updatedDescription"),
       });
     },
     onError: (error: any) => {
       toast({
-        title: "Error",
-        description: error.message || "Failed to update settings",
+        title: t("common.error"),
+        description: error.message || t("settings.updateFailed"),
         variant: "destructive",
       });
     },
@@ -76,7 +72,7 @@ export default function Settings() {
     return (
       <div className="flex items-center justify-center h-screen">
         <div className="text-center">
-          <p className="text-gray-500">Loading...</p>
+          <p className="text-gray-500">{t("common.loading")}</p>
         </div>
       </div>
     );
@@ -93,8 +89,8 @@ export default function Settings() {
             </Button>
           </Link>
           <div>
-            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Settings</h1>
-            <p className="text-gray-600 dark:text-gray-400">Manage your chat preferences and settings</p>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t("settings.title")}</h1>
+            <p className="text-gray-600 dark:text-gray-400">{t("settings.subtitle")}</p>
           </div>
         </div>
 
@@ -104,22 +100,22 @@ export default function Settings() {
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <Globe className="w-5 h-5" />
-                <span>Profile Information</span>
+                <span>{t("settings.profileTitle")}</span>
               </CardTitle>
               <CardDescription>
-                Your account details and basic information
+                {t("settings.profileDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="email">Email</Label>
+                  <Label htmlFor="email">{t("settings.email")}</Label>
                   <div className="mt-1 px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-md text-gray-900 dark:text-white">
                     {user.email}
                   </div>
                 </div>
                 <div>
-                  <Label htmlFor="username">Username</Label>
+                  <Label htmlFor="username">{t("settings.username")}</Label>
                   <div className="mt-1 px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-md text-gray-900 dark:text-white">
                     @{user.email?.split('@')[0] || 'user'}
                   </div>
@@ -133,18 +129,18 @@ export default function Settings() {
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <Languages className="w-5 h-5" />
-                <span>Language Settings</span>
+                <span>{t("settings.languageTitle")}</span>
               </CardTitle>
               <CardDescription>
-                Choose your preferred language and translation options
+                {t("settings.languageDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="space-y-2">
-                <Label htmlFor="language">Default Language</Label>
+                <Label htmlFor="language">{t("settings.defaultLanguage")}</Label>
                 <Select value={selectedLanguage} onValueChange={setSelectedLanguage}>
                   <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select a language" />
+                    <SelectValue placeholder={t("settings.selectLanguage")} />
                   </SelectTrigger>
                   <SelectContent>
                     {languages.map((lang) => (
@@ -155,16 +151,16 @@ export default function Settings() {
                   </SelectContent>
                 </Select>
                 <p className="text-sm text-gray-500 dark:text-gray-400">
-                  This will be used as your primary interface language
+                  {t("settings.defaultLanguageHint")}
                 </p>
               </div>
 
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label htmlFor="auto-translate">Auto Translation</Label>
+                    <Label htmlFor="auto-translate">{t("settings.autoTranslate")}</Label>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Automatically translate messages to your preferred language
+                      {t("settings.autoTranslateHint")}
                     </p>
                   </div>
                   <Switch
@@ -176,10 +172,10 @@ export default function Settings() {
 
                 {autoTranslate && (
                   <div className="space-y-2 pl-4 border-l-2 border-blue-200 dark:border-blue-800">
-                    <Label htmlFor="translate-to">Translate messages to</Label>
+                    <Label htmlFor="translate-to">{t("settings.translateTo")}</Label>
                     <Select value={translateToLanguage} onValueChange={setTranslateToLanguage}>
                       <SelectTrigger className="w-full">
-                        <SelectValue placeholder="Select target language" />
+                        <SelectValue placeholder={t("settings.selectTargetLanguage")} />
                       </SelectTrigger>
                       <SelectContent>
                         {languages
@@ -192,7 +188,7 @@ export default function Settings() {
                       </SelectContent>
                     </Select>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Messages will be automatically translated to this language
+                      {t("settings.translateToHint")}
                     </p>
                   </div>
                 )}
@@ -207,7 +203,7 @@ export default function Settings() {
               disabled={updateSettingsMutation.isPending}
               className="bg-blue-600 hover:bg-blue-700"
             >
-              {updateSettingsMutation.isPending ? "Saving..." : "Save Settings"}
+              {updateSettingsMutation.isPending ? t("common.saving") : t("settings.saveSettings")}
             </Button>
           </div>
         </div>
@@ -1,25 +1,40 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { useI18n } from "@/lib/i18n";
 import { useEffect } from "react";
 import ChatSidebar from "@/components/chat/ChatSidebar";
 import ChatArea from "@/components/chat/ChatArea";
 import { Button } from "@/components/ui/button";
 import { Menu } from "lucide-react";
+import type { ConversationWithParticipants } from "@shared/schema";
 
 export default function Home() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
+  const { t } = useI18n();
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  // Message to scroll to once the selected conversation has loaded
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  // One connection per tab, kept open whether or not a chat is selected
+  const socket = useWebSocket(user?.id || '');
+
+  const { data: conversations = [] } = useQuery<ConversationWithParticipants[]>({
+    queryKey: ["/api/conversations"],
+    enabled: isAuthenticated,
+  });
+  const totalUnread = conversations.reduce((sum, c) => sum + (c.unreadCount ?? 0), 0);
 
   // Redirect to login if not authenticated
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       toast({
-        title: "Unauthorized",
-        description: "You are logged out. Logging in again...",
+        title: t("auth.unauthorizedTitle"),
+        description: t("auth.unauthorizedDescription"),
         variant: "destructive",
       });
       setTimeout(() => {
@@ -27,14 +42,49 @@ export default function Home() {
       }, 500);
       return;
     }
-  }, [isAuthenticated, isLoading, toast]);
+  }, [isAuthenticated, isLoading, toast, t]);
+
+  // Show the total unread count in the tab title
+  useEffect(() => {
+    document.title = totalUnread > 0 ? `(${totalUnread}) TeleChat` : "TeleChat";
+  }, [totalUnread]);
+
+  // Close the chat if we left it from another tab or were removed from it
+  useEffect(() => {
+    const handleParticipantLeft = (event: Event) => {
+      const { conversationId, userId } = (event as CustomEvent).detail;
+      if (userId === user?.id && conversationId === selectedConversationId) {
+        setSelectedConversationId(null);
+      }
+    };
+    const handleConversationHidden = (event: Event) => {
+      if ((event as CustomEvent).detail.conversationId === selectedConversationId) {
+        setSelectedConversationId(null);
+      }
+    };
+
+    window.addEventListener('participant_left', handleParticipantLeft);
+    window.addEventListener('participant_removed', handleParticipantLeft);
+    window.addEventListener('conversation_hidden', handleConversationHidden);
+    return () => {
+      window.removeEventListener('participant_left', handleParticipantLeft);
+      window.removeEventListener('participant_removed', handleParticipantLeft);
+      window.removeEventListener('conversation_hidden', handleConversationHidden);
+    };
+  }, [user?.id, selectedConversationId]);
+
+  const handleOpenMessage = (conversationId: string, messageId: string) => {
+    setSelectedConversationId(conversationId);
+    setFocusedMessageId(messageId);
+    setIsSidebarOpen(false);
+  };
 
   if (isLoading) {
     return (
       <div className="min-h-screen bg-blue-600 flex items-center justify-center">
         <div className="text-center text-white">
           <div className="w-16 h-16 border-4 border-white/30 border-t-white rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-lg font-medium">Connecting to TeleChat...</p>
+          <p className="text-lg font-medium">{t("home.connecting")}</p>
         </div>
       </div>
     );
@@ -65,6 +115,7 @@ export default function Home() {
             user={user}
             selectedConversationId={selectedConversationId}
             onSelectConversation={setSelectedConversationId}
+            onOpenMessage={handleOpenMessage}
             onCloseSidebar={() => setIsSidebarOpen(false)}
           />
         </div>
@@ -75,6 +126,10 @@ export default function Home() {
             <ChatArea 
               conversationId={selectedConversationId}
               onOpenSidebar={() => setIsSidebarOpen(true)}
+              onLeaveConversation={() => setSelectedConversationId(null)}
+              socket={socket}
+              focusedMessageId={focusedMessageId}
+              onMessageFocused={() => setFocusedMessageId(null)}
             />
           ) : (
             <div className="flex-1 flex items-center justify-center bg-gray-50">
@@ -86,10 +141,10 @@ export default function Home() {
                   onClick={() => setIsSidebarOpen(true)}
                 >
                   <Menu className="w-5 h-5 mr-2" />
-                  Open Chats
+                  {t("home.openChats")}
                 </Button>
                 <div className="text-gray-500 text-lg">
-                  Select a conversation to start messaging
+                  {t("home.selectConversation")}
                 </div>
               </div>
             </div>
@@ -1,8 +1,11 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MessageCircle, Users, Shield, Smartphone } from "lucide-react";
+import { useI18n } from "@/lib/i18n";
 
 export default function Landing() {
+  const { t } = useI18n();
+
   const handleLogin = () => {
     window.location.href = "/api/login";
   };
@@ -19,7 +22,7 @@ export default function Landing() {
           </div>
           <h1 className="text-5xl font-bold text-gray-900 mb-4">TeleChat</h1>
           <p className="text-xl text-gray-600 max-w-2xl mx-auto">
-            A modern, secure messaging platform for seamless communication with your team and friends.
+            {t("landing.tagline")}
           </p>
         </div>
 
@@ -30,9 +33,9 @@ export default function Landing() {
               <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center mx-auto mb-4">
                 <MessageCircle className="w-6 h-6 text-blue-600" />
               </div>
-              <CardTitle>Real-time Messaging</CardTitle>
+              <CardTitle>{t("landing.realtimeTitle")}</CardTitle>
               <CardDescription>
-                Instant message delivery with typing indicators and read receipts
+                {t("landing.realtimeDescription")}
               </CardDescription>
             </CardHeader>
           </Card>
@@ -42,9 +45,9 @@ export default function Landing() {
               <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center mx-auto mb-4">
                 <Users className="w-6 h-6 text-green-600" />
               </div>
-              <CardTitle>Group Chats</CardTitle>
+              <CardTitle>{t("landing.groupsTitle")}</CardTitle>
               <CardDescription>
-                Create groups and collaborate with multiple team members efficiently
+                {t("landing.groupsDescription")}
               </CardDescription>
             </CardHeader>
           </Card>
@@ -54,9 +57,9 @@ export default function Landing() {
               <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center mx-auto mb-4">
                 <Shield className="w-6 h-6 text-purple-600" />
               </div>
-              <CardTitle>Secure & Private</CardTitle>
+              <CardTitle>{t("landing.secureTitle")}</CardTitle>
               <CardDescription>
-                End-to-end encryption ensures your conversations stay private
+                {t("landing.secureDescription")}
               </CardDescription>
             </CardHeader>
           </Card>
@@ -67,17 +70,17 @@ export default function Landing() {
           <CardContent className="pt-6">
             <div className="text-center">
               <h2 className="text-3xl font-bold text-gray-900 mb-4">
-                Ready to start chatting?
+                {t("landing.ctaTitle")}
               </h2>
               <p className="text-gray-600 mb-8">
-                Join thousands of users who trust TeleChat for their daily communication needs.
+                {t("landing.ctaDescription")}
               </p>
               <Button 
                 onClick={handleLogin}
                 size="lg"
                 className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 text-lg"
               >
-                Get Started
+                {t("landing.getStarted")}
               </Button>
             </div>
           </CardContent>
@@ -86,7 +89,7 @@ export default function Landing() {
         {/* Mobile responsive note */}
         <div className="flex items-center justify-center mt-12 text-gray-500">
           <Smartphone className="w-5 h-5 mr-2" />
-          <span className="text-sm">Optimized for mobile and desktop</span>
+          <span className="text-sm">{t("landing.responsive")}</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,107 @@
+import { randomUUID } from "crypto";
+import { WebSocket } from "ws";
+
+export interface Connection {
+  id: string;
+  userId: string;
+  socket: WebSocket;
+  connectedAt: Date;
+  // Last frame received from the client, heartbeats included
+  lastActiveAt: Date;
+}
+
+interface SendOptions {
+  // Skip one socket, e.g. the tab that triggered the event
+  excludeConnectionId?: string;
+}
+
+// Tracks every open WebSocket per user, so a user signed in from several tabs
+// or devices receives events on all of them.
+export class ConnectionRegistry {
+  private connections = new Map<string, Connection>();
+  private connectionsByUser = new Map<string, Set<string>>();
+
+  add(userId: string, socket: WebSocket): Connection {
+    const connection: Connection = {
+      id: randomUUID(),
+      userId,
+      socket,
+      connectedAt: new Date(),
+      lastActiveAt: new Date(),
+    };
+
+    this.connections.set(connection.id, connection);
+    let userConnections = this.connectionsByUser.get(userId);
+    if (!userConnections) {
+      userConnections = new Set();
+      this.connectionsByUser.set(userId, userConnections);
+    }
+    userConnections.add(connection.id);
+
+    return connection;
+  }
+
+  remove(connectionId: string): Connection | undefined {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return undefined;
+
+    this.connections.delete(connectionId);
+    const userConnections = this.connectionsByUser.get(connection.userId);
+    if (userConnections) {
+      userConnections.delete(connectionId);
+      if (userConnections.size === 0) {
+        this.connectionsByUser.delete(connection.userId);
+      }
+    }
+
+    return connection;
+  }
+
+  touch(connectionId: string) {
+    const connection = this.connections.get(connectionId);
+    if (connection) {
+      connection.lastActiveAt = new Date();
+    }
+  }
+
+  all(): Connection[] {
+    return Array.from(this.connections.values());
+  }
+
+  getUserConnections(userId: string): Connection[] {
+    const ids = this.connectionsByUser.get(userId);
+    if (!ids) return [];
+    return Array.from(ids)
+      .map(id => this.connections.get(id))
+      .filter((connection): connection is Connection => !!connection);
+  }
+
+  isOnline(userId: string): boolean {
+    return this.connectionsByUser.has(userId);
+  }
+
+  sendToUser(userId: string, payload: unknown, options: SendOptions = {}): number {
+    return this.sendToUsers([userId], payload, options);
+  }
+
+  // Returns the number of sockets the payload was written to
+  sendToUsers(userIds: Iterable<string | null>, payload: unknown, options: SendOptions = {}): number {
+    const data = JSON.stringify(payload);
+    let sent = 0;
+
+    for (const userId of Array.from(new Set(userIds))) {
+      if (!userId) continue;
+      for (const connection of this.getUserConnections(userId)) {
+        if (connection.id === options.excludeConnectionId) continue;
+        if (connection.socket.readyState === WebSocket.OPEN) {
+          connection.socket.send(data);
+          sent++;
+        }
+      }
+    }
+
+    return sent;
+  }
+}
+
+export const connections = new ConnectionRegistry();
@@ -0,0 +1,46 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+
+// Where uploaded attachment bytes live. Keys are opaque, generated by the
+// caller, and never derived from user-supplied file names.
+export interface FileStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  // Rejects via the stream's error event when the file is missing
+  read(key: string): Readable;
+  delete(key: string): Promise<void>;
+}
+
+const safeKey = /^[A-Za-z0-9_-]+$/;
+
+// Stores files in a directory on the local disk
+export class LocalFileStorage implements FileStorage {
+  constructor(private rootDir: string) {}
+
+  async save(key: string, data: Buffer): Promise<void> {
+    await mkdir(this.rootDir, { recursive: true });
+    await writeFile(this.resolve(key), data, { flag: "wx" });
+  }
+
+  read(key: string): Readable {
+    return createReadStream(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string) {
+    if (!safeKey.test(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.rootDir, key);
+  }
+}
+
+export function createFileStorage(): FileStorage {
+  return new LocalFileStorage(path.resolve(process.env.UPLOAD_DIR ?? "uploads"));
+}
+
+export const fileStorage = createFileStorage();
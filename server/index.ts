@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +38,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Backfill for groups created before member roles; a no-op once every group has an owner
+  const ownersAssigned = await storage.assignMissingGroupOwners();
+  if (ownersAssigned > 0) {
+    log(`assigned owners to ${ownersAssigned} group(s) without one`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
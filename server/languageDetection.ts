@@ -0,0 +1,123 @@
+// Offline language detection for chat messages. Non-Latin scripts are
+// identified by Unicode ranges; Latin-script text is scored against small
+// character trigram profiles.
+
+const scriptPatterns: { language: string; pattern: RegExp }[] = [
+  { language: "ko", pattern: /[가-힯ᄀ-ᇿ㄰-㆏]/g },
+  { language: "ja", pattern: /[぀-ゟ゠-ヿ]/g },
+  { language: "ru", pattern: /[Ѐ-ӿ]/g },
+];
+
+const hanPattern = /[一-鿿]/g;
+const latinPattern = /[a-zA-ZÀ-ɏ]/g;
+
+// Representative everyday text per Latin-script language, used to build the
+// trigram profiles
+const samples: Record<string, string> = {
+  en: `hello how are you doing today thank you very much see you tomorrow
+    what time is the meeting i think that we should go there together
+    where are you now can you send me the file please let me know when
+    you are ready i will call you later this is the best thing ever`,
+  es: `hola como estas hoy muchas gracias nos vemos mañana que hora es la
+    reunion creo que deberiamos ir juntos donde estas ahora puedes enviarme
+    el archivo por favor avisame cuando estes listo te llamo mas tarde
+    esto es lo mejor que hay el año pasado fue muy bueno para todos`,
+  fr: `bonjour comment ça va aujourd'hui merci beaucoup à demain quelle heure
+    est la réunion je pense que nous devrions y aller ensemble où es tu
+    maintenant peux tu m'envoyer le fichier s'il te plaît dis moi quand tu
+    es prêt je t'appelle plus tard c'est la meilleure chose qui soit`,
+  de: `hallo wie geht es dir heute vielen dank bis morgen wann ist die
+    besprechung ich denke dass wir zusammen gehen sollten wo bist du jetzt
+    kannst du mir die datei schicken bitte sag mir wenn du fertig bist
+    ich rufe dich später an das ist das beste was es gibt`,
+};
+
+// Letters that strongly suggest a specific language
+const distinctiveLetters: Record<string, RegExp> = {
+  es: /[ñ¿¡áíóú]/,
+  fr: /[çéœæèêëàâîïôûù]/,
+  de: /[ßäöü]/,
+};
+
+type Profile = { counts: Map<string, number>; total: number };
+
+function trigrams(text: string): string[] {
+  const result: string[] = [];
+  for (const word of text.toLowerCase().split(/[^a-zÀ-ɏ']+/)) {
+    if (!word) continue;
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      result.push(padded.slice(i, i + 3));
+    }
+  }
+  return result;
+}
+
+function buildProfile(text: string): Profile {
+  const counts = new Map<string, number>();
+  const grams = trigrams(text);
+  for (const gram of grams) {
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return { counts, total: grams.length };
+}
+
+const profiles = Object.entries(samples).map(([language, text]) => ({
+  language,
+  profile: buildProfile(text),
+}));
+
+function countMatches(text: string, pattern: RegExp) {
+  return text.match(pattern)?.length ?? 0;
+}
+
+function detectLatinLanguage(text: string): string | null {
+  const grams = trigrams(text);
+  if (grams.length < 3) return null;
+
+  let best: { language: string; score: number } | null = null;
+  for (const { language, profile } of profiles) {
+    // Add-one smoothed log likelihood of the input under this profile
+    let score = 0;
+    for (const gram of grams) {
+      score += Math.log(((profile.counts.get(gram) ?? 0) + 1) / (profile.total + profile.counts.size));
+    }
+    if (distinctiveLetters[language]?.test(text.toLowerCase())) {
+      score += grams.length;
+    }
+    if (!best || score > best.score) {
+      best = { language, score };
+    }
+  }
+
+  return best?.language ?? null;
+}
+
+// Returns an ISO 639-1 code, or null when the text is too short or has no
+// recognizable letters (e.g. emoji only)
+export function detectLanguage(text: string): string | null {
+  const letters = countMatches(text, latinPattern);
+  const han = countMatches(text, hanPattern);
+
+  let dominant: { language: string; count: number } | null = null;
+  for (const { language, pattern } of scriptPatterns) {
+    const count = countMatches(text, pattern);
+    if (count > 0 && (!dominant || count > dominant.count)) {
+      dominant = { language, count };
+    }
+  }
+
+  // Japanese mixes kana with kanji, so Han characters only mean Chinese when
+  // no kana is present
+  if (dominant?.language === "ja") {
+    dominant.count += han;
+  } else if (han > (dominant?.count ?? 0)) {
+    dominant = { language: "zh", count: han };
+  }
+
+  if (dominant && dominant.count >= letters) {
+    return dominant.language;
+  }
+
+  return detectLatinLanguage(text);
+}
@@ -0,0 +1,56 @@
+import { storage } from "./storage";
+
+interface CacheEntry {
+  memberIds: Set<string>;
+  loadedAt: number;
+}
+
+// In-memory conversation membership for hot paths such as typing frames,
+// which arrive far too often to hit the database each time. Routes that
+// change membership must call invalidate(); the TTL only bounds how long a
+// missed invalidation can linger. Lookups that find no members (unknown or
+// deleted conversations) are not cached, and expired entries are dropped as
+// new ones are loaded, so ids from clients cannot grow the cache unboundedly.
+export class MembershipCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private ttlMs = 5 * 60_000) {}
+
+  async getMemberIds(conversationId: string): Promise<Set<string>> {
+    const entry = this.entries.get(conversationId);
+    if (entry && Date.now() - entry.loadedAt < this.ttlMs) {
+      return entry.memberIds;
+    }
+
+    const conversation = await storage.getConversation(conversationId);
+    const memberIds = new Set(
+      (conversation?.participants ?? [])
+        .map(p => p.userId)
+        .filter((id): id is string => !!id),
+    );
+    if (memberIds.size > 0) {
+      this.sweep();
+      this.entries.set(conversationId, { memberIds, loadedAt: Date.now() });
+    }
+    return memberIds;
+  }
+
+  async isMember(conversationId: string, userId: string): Promise<boolean> {
+    return (await this.getMemberIds(conversationId)).has(userId);
+  }
+
+  invalidate(conversationId: string) {
+    this.entries.delete(conversationId);
+  }
+
+  private sweep() {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [conversationId, entry] of Array.from(this.entries)) {
+      if (entry.loadedAt < cutoff) {
+        this.entries.delete(conversationId);
+      }
+    }
+  }
+}
+
+export const memberships = new MembershipCache();
@@ -0,0 +1,76 @@
+import { storage } from "./storage";
+import { connections, type Connection, type ConnectionRegistry } from "./connections";
+import type { UserPresence } from "@shared/schema";
+
+// Derives online status from open WebSocket connections. A user is online
+// while at least one connection is alive; sockets that stop sending frames
+// (heartbeats included) are dropped after the timeout, which also covers
+// clients that vanish without a clean close.
+export class PresenceService {
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private registry: ConnectionRegistry,
+    private heartbeatTimeoutMs = 60_000,
+  ) {}
+
+  start() {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), this.heartbeatTimeoutMs / 2);
+    this.sweepTimer.unref();
+  }
+
+  stop() {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  // Call after the connection has been added to the registry
+  async connected(connection: Connection) {
+    if (this.registry.getUserConnections(connection.userId).length > 1) return;
+    await this.broadcast({ userId: connection.userId, online: true, lastSeenAt: null });
+  }
+
+  heartbeat(connectionId: string) {
+    this.registry.touch(connectionId);
+  }
+
+  // Call after the connection has been removed from the registry
+  async disconnected(connection: Connection) {
+    if (this.registry.isOnline(connection.userId)) return;
+
+    const lastSeenAt = new Date();
+    await storage.updateLastSeen(connection.userId, lastSeenAt);
+    await this.broadcast({ userId: connection.userId, online: false, lastSeenAt });
+  }
+
+  // Presence of everyone the user shares a conversation with
+  async getContactPresence(userId: string): Promise<UserPresence[]> {
+    const contacts = await storage.getContacts(userId);
+    return contacts.map(contact => ({
+      userId: contact.id,
+      online: this.registry.isOnline(contact.id),
+      lastSeenAt: contact.lastSeenAt,
+    }));
+  }
+
+  private async broadcast(presence: UserPresence) {
+    const contacts = await storage.getContacts(presence.userId);
+    this.registry.sendToUsers(contacts.map(contact => contact.id), {
+      type: 'presence',
+      ...presence,
+    });
+  }
+
+  private sweep() {
+    const cutoff = Date.now() - this.heartbeatTimeoutMs;
+    for (const connection of this.registry.all()) {
+      if (connection.lastActiveAt.getTime() < cutoff) {
+        // Fires the socket's close handler, which unregisters it
+        connection.socket.terminate();
+      }
+    }
+  }
+}
+
+export const presence = new PresenceService(connections);
@@ -3,7 +3,8 @@ import { Strategy, type VerifyFunction } from "openid-client/passport";
 
 import passport from "passport";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, Response, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
@@ -22,6 +23,8 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
+let sessionMiddleware: RequestHandler | undefined;
+
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
@@ -68,7 +71,8 @@ async function upsertUser(
 
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -133,31 +137,72 @@ export async function setupAuth(app: Express) {
   });
 }
 
-export const isAuthenticated: RequestHandler = async (req, res, next) => {
-  const user = req.user as any;
-
-  if (!req.isAuthenticated() || !user.expires_at) {
-    return res.status(401).json({ message: "Unauthorized" });
-  }
-
+async function ensureFreshTokens(user: any): Promise<boolean> {
   const now = Math.floor(Date.now() / 1000);
   if (now <= user.expires_at) {
-    return next();
+    return true;
   }
 
   const refreshToken = user.refresh_token;
   if (!refreshToken) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
+    return false;
   }
 
   try {
     const config = await getOidcConfig();
     const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
     updateUserSession(user, tokenResponse);
-    return next();
+    return true;
   } catch (error) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
+    return false;
   }
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const user = req.user as any;
+
+  if (!req.isAuthenticated() || !user.expires_at) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  if (await ensureFreshTokens(user)) {
+    return next();
+  }
+
+  res.status(401).json({ message: "Unauthorized" });
 };
+
+// Resolve the user behind a WebSocket upgrade request by running it through
+// the same session and passport middleware as the HTTP API. Returns null when
+// the request carries no valid login session.
+export async function authenticateUpgrade(req: IncomingMessage): Promise<string | null> {
+  if (!sessionMiddleware) return null;
+
+  const request = req as Request;
+  const response = {} as Response;
+  const run = (handler: RequestHandler) =>
+    new Promise<void>((resolve, reject) => {
+      handler(request, response, (err?: unknown) => (err ? reject(err) : resolve()));
+    });
+
+  await run(sessionMiddleware);
+  await run(passport.initialize());
+  await run(passport.session());
+
+  const user = request.user as any;
+  if (!request.isAuthenticated() || !user.expires_at) {
+    return null;
+  }
+
+  const expiresAt = user.expires_at;
+  if (!(await ensureFreshTokens(user))) {
+    return null;
+  }
+
+  // There is no HTTP response to piggyback on, so persist refreshed tokens explicitly
+  if (user.expires_at !== expiresAt) {
+    await new Promise<void>((resolve) => request.session.save(() => resolve()));
+  }
+
+  return user.claims?.sub ?? null;
+}
@@ -1,18 +1,267 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { connections } from "./connections";
+import { presence } from "./presence";
+import { memberships } from "./membership";
+import { typing } from "./typing";
+import { fileStorage } from "./fileStorage";
+import { buildSnippet } from "./search";
+import { translationService } from "./translation";
+import { setupAuth, isAuthenticated, authenticateUpgrade } from "./replitAuth";
+import multer from "multer";
+import { randomUUID } from "crypto";
 import {
   insertConversationSchema,
-  insertMessageSchema,
   insertParticipantSchema,
   updateUserSettingsSchema,
+  updateConversationSchema,
+  updateMessageSchema,
+  sendAttachmentSchema,
+  reactionEmojiSchema,
+  messageSearchQuerySchema,
+  messagePageQuerySchema,
+  sendMessageSchema,
+  participantRoleSchema,
+  type User,
+  type Message,
+  type SystemMessageMetadata,
+  type ConversationWithParticipants,
+  type MessageWithSender,
+  type Attachment,
+  type MessageSearchResult,
 } from "@shared/schema";
+import { hasPermission, canRemoveParticipant, pickNextOwner } from "@shared/permissions";
+import { getSearchTerms } from "@shared/search";
+import { MAX_ATTACHMENT_SIZE, isAllowedAttachmentType, isImageAttachment } from "@shared/attachments";
 import { z } from "zod";
 
-// WebSocket connection tracking
-const wsConnections = new Map<string, WebSocket>();
+function getDisplayName(user: User) {
+  return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || "Unknown User";
+}
+
+// Load a group together with the acting user's membership, or undefined if
+// the conversation is not a group the user belongs to
+async function getGroupMembership(conversationId: string, userId: string) {
+  const conversation = await storage.getConversation(conversationId);
+  const actor = conversation?.participants.find(p => p.userId === userId);
+  if (!conversation || !conversation.isGroup || !actor) return undefined;
+  return { conversation, actor };
+}
+
+// Push fresh unread counts for a conversation, to every participant or only
+// to the given users
+async function sendUnreadCounts(conversationId: string, onlyUserIds?: string[]) {
+  const counts = await storage.getUnreadCounts(conversationId);
+  for (const [userId, count] of Array.from(counts)) {
+    if (onlyUserIds && !onlyUserIds.includes(userId)) continue;
+    connections.sendToUser(userId, { type: 'unread_count', conversationId, count });
+  }
+}
+
+// Replies must quote a live message from the same conversation
+async function isValidReplyTarget(replyToId: string, conversationId: string) {
+  const parent = await storage.getMessage(replyToId);
+  return !!parent && !parent.deletedAt && parent.conversationId === conversationId;
+}
+
+// Uploads are buffered in memory and then handed to file storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: 1 },
+  defParamCharset: "utf8", // keep non-ASCII file names intact
+});
+
+// Run the multipart parser inside a route, after access checks have passed
+function parseUpload(req: Request, res: Response) {
+  return new Promise<void>((resolve, reject) => {
+    upload.single("file")(req, res, (error?: unknown) => (error ? reject(error) : resolve()));
+  });
+}
+
+// File removal failures only leave orphans behind, so they never fail a request
+async function removeStoredFiles(files: Pick<Attachment, "storageKey">[]) {
+  for (const file of files) {
+    try {
+      await fileStorage.delete(file.storageKey);
+    } catch (error) {
+      console.error("Error removing attachment file:", error);
+    }
+  }
+}
+
+// Stream an attachment to a participant. Only images may be shown inline;
+// other types are always served as downloads.
+function serveAttachment(disposition: "inline" | "attachment") {
+  return async (req: any, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const attachment = await storage.getAttachment(id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      const isParticipant = await storage.isUserInConversation(userId, attachment.conversationId!);
+      if (!isParticipant) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const type = disposition === "inline" && isImageAttachment(attachment.mimeType) ? "inline" : "attachment";
+      res.set({
+        "Content-Type": attachment.mimeType,
+        "Content-Length": String(attachment.size),
+        "Content-Disposition": `${type}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=86400",
+      });
+
+      const stream = fileStorage.read(attachment.storageKey);
+      stream.on("error", (error) => {
+        console.error("Error reading attachment file:", error);
+        if (res.headersSent) {
+          res.destroy();
+        } else {
+          res.removeHeader("Content-Disposition");
+          res.status(404).json({ message: "Attachment not found" });
+        }
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error("Error fetching attachment:", error);
+      res.status(500).json({ message: "Failed to fetch attachment" });
+    }
+  };
+}
+
+// Add or remove the caller's reaction, then push the message's new reaction
+// totals to everyone in the conversation. Both directions are idempotent.
+function changeReaction(action: "add" | "remove") {
+  return async (req: any, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const emojiResult = reactionEmojiSchema.safeParse(req.params.emoji);
+      if (!emojiResult.success) {
+        return res.status(400).json({ message: "Unsupported reaction" });
+      }
+
+      const message = await storage.getMessage(id);
+      if (!message || message.deletedAt || message.type !== 'text') {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const conversationId = message.conversationId!;
+      const isParticipant = await storage.isUserInConversation(userId, conversationId);
+      if (!isParticipant) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (action === "add") {
+        await storage.addReaction(id, userId, emojiResult.data);
+      } else {
+        await storage.removeReaction(id, userId, emojiResult.data);
+      }
+
+      const reactions = await storage.getReactions(id);
+      connections.sendToUsers(await memberships.getMemberIds(conversationId), {
+        type: 'reaction_changed',
+        conversationId,
+        messageId: id,
+        reactions,
+      });
+
+      res.json(reactions);
+    } catch (error) {
+      console.error("Error updating reaction:", error);
+      res.status(500).json({ message: "Failed to update reaction" });
+    }
+  };
+}
+
+// Deliver a new or edited message to every participant, translated for those
+// who turned on auto-translate. Recipients sharing a target language share a payload.
+// New messages name the one before them so clients can append to their cache,
+// or refetch when they are missing messages in between.
+async function broadcastMessage(
+  conversation: ConversationWithParticipants,
+  message: MessageWithSender,
+  type: 'new_message' | 'message_updated' = 'new_message',
+) {
+  const recipientsByLanguage = new Map<string | null, string[]>();
+  for (const participant of conversation.participants) {
+    if (!participant.userId) continue;
+    const { autoTranslate, translateToLanguage } = participant.user;
+    const language = autoTranslate && translateToLanguage && participant.userId !== message.senderId
+      ? translateToLanguage
+      : null;
+    recipientsByLanguage.set(language, [...(recipientsByLanguage.get(language) ?? []), participant.userId]);
+  }
+
+  const previousMessageId = type === 'new_message'
+    ? await storage.getPreviousMessageId(conversation.id, message.id)
+    : undefined;
+
+  await Promise.all(Array.from(recipientsByLanguage).map(async ([language, userIds]) => {
+    const [payloadMessage] = language
+      ? await translationService.translateMessages([message], language)
+      : [message];
+    connections.sendToUsers(userIds, {
+      type,
+      message: payloadMessage,
+      conversationId: conversation.id,
+      previousMessageId,
+    });
+  }));
+  if (type === 'new_message') {
+    await sendUnreadCounts(conversation.id);
+  }
+}
+
+// Record a membership or settings change in the timeline and push it to members
+async function postSystemMessage(
+  conversationId: string,
+  actorId: string,
+  content: string,
+  metadata: SystemMessageMetadata,
+  recipientIds: (string | null)[],
+) {
+  const message = await storage.createMessage({
+    conversationId,
+    senderId: actorId,
+    content,
+    type: 'system',
+    metadata,
+  });
+  connections.sendToUsers(recipientIds, {
+    type: 'new_message',
+    message,
+    conversationId,
+    previousMessageId: await storage.getPreviousMessageId(conversationId, message.id),
+  });
+  await sendUnreadCounts(conversationId);
+  return message;
+}
+
+// Advance a reader's last-read pointer and let everyone in the conversation
+// (including the reader's other tabs) know. Returns false when the pointer
+// was already at or past the message.
+async function recordReadReceipt(userId: string, message: Pick<Message, "id" | "conversationId" | "createdAt">) {
+  const conversationId = message.conversationId!;
+  const participant = await storage.markMessagesRead(conversationId, userId, message);
+  if (!participant) return false;
+
+  connections.sendToUsers(await memberships.getMemberIds(conversationId), {
+    type: 'read_receipt',
+    conversationId,
+    userId,
+    messageId: message.id,
+    readAt: participant.lastReadAt,
+  });
+  await sendUnreadCounts(conversationId, [userId]);
+  return true;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -47,6 +296,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Online status of everyone the user shares a conversation with
+  app.get('/api/presence', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await presence.getContactPresence(userId));
+    } catch (error) {
+      console.error("Error fetching presence:", error);
+      res.status(500).json({ message: "Failed to fetch presence" });
+    }
+  });
+
   // Update user settings
   app.patch('/api/users/settings', isAuthenticated, async (req: any, res) => {
     try {
@@ -68,6 +328,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Search messages in every conversation the user belongs to
+  app.get('/api/search/messages', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      const validationResult = messageSearchQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid search query",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const { q, limit, conversationId } = validationResult.data;
+      if (conversationId && !(await storage.isUserInConversation(userId, conversationId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const terms = getSearchTerms(q);
+      const messages = await storage.searchMessages(userId, terms, { limit, conversationId });
+      const results: MessageSearchResult[] = messages.map(message => ({
+        message,
+        ...buildSnippet(message.content, terms),
+      }));
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching messages:", error);
+      res.status(500).json({ message: "Failed to search messages" });
+    }
+  });
+
   // Get user's conversations
   app.get('/api/conversations', isAuthenticated, async (req: any, res) => {
     try {
@@ -141,6 +432,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.addParticipant({
         conversationId: conversation.id,
         userId: currentUserId,
+        role: 'owner',
       });
       
       // Add other participants
@@ -162,7 +454,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/conversations/:id/messages', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { limit, offset } = req.query;
       const userId = req.user.claims.sub;
       
       // Check if user is participant
@@ -171,12 +462,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      const messages = await storage.getMessages(
-        id, 
-        limit ? parseInt(limit as string) : undefined,
-        offset ? parseInt(offset as string) : undefined
-      );
-      res.json(messages);
+      const validationResult = messagePageQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid page request",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      // `around` returns the window surrounding one message, for jumping back in history
+      const { before, after, around, limit } = validationResult.data;
+      const messages = around
+        ? await storage.getMessagesAround(id, around, limit)
+        : await storage.getMessages(id, { before, after, limit });
+      if (!messages) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const user = await storage.getUser(userId);
+      res.json(await translationService.localizeForUser(messages, user));
     } catch (error) {
       console.error("Error fetching messages:", error);
       res.status(500).json({ message: "Failed to fetch messages" });
@@ -195,90 +498,669 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      const { content } = insertMessageSchema.parse({
-        ...req.body,
+      const validationResult = sendMessageSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid message",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const { id: messageId, content, replyToId } = validationResult.data;
+      
+      if (replyToId && !(await isValidReplyTarget(replyToId, id))) {
+        return res.status(400).json({ message: "Cannot reply to a message outside this conversation" });
+      }
+      
+      const newMessage = { conversationId: id, senderId: userId, content, replyToId };
+      const message = messageId
+        ? await storage.createMessageOnce({ ...newMessage, id: messageId })
+        : await storage.createMessage(newMessage);
+      
+      // A retried send gets back the message it already created
+      if (!message) {
+        const existing = await storage.getMessage(messageId!);
+        if (!existing || existing.senderId !== userId || existing.conversationId !== id) {
+          return res.status(409).json({ message: "Message id already in use" });
+        }
+        return res.json(existing);
+      }
+      
+      // Sending ends the sender's typing state
+      await typing.stop(id, userId);
+      
+      const conversation = await storage.getConversation(id);
+      res.json(message);
+      
+      // Broadcast to all participants once the sender has their answer, so
+      // they never wait on other people's translations
+      if (conversation) {
+        broadcastMessage(conversation, message).catch(error => {
+          console.error("Error broadcasting message:", error);
+        });
+      }
+    } catch (error) {
+      console.error("Error sending message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Send a file, with an optional caption, as a new message
+  app.post('/api/conversations/:id/attachments', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const isParticipant = await storage.isUserInConversation(userId, id);
+      if (!isParticipant) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      try {
+        await parseUpload(req, res);
+      } catch (error) {
+        if (error instanceof multer.MulterError) {
+          return error.code === "LIMIT_FILE_SIZE"
+            ? res.status(413).json({ message: "File is too large" })
+            : res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+      
+      const file: Express.Multer.File | undefined = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      if (!isAllowedAttachmentType(file.mimetype)) {
+        return res.status(415).json({ message: "Unsupported file type" });
+      }
+      
+      const validationResult = sendAttachmentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid attachment",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const { content, replyToId } = validationResult.data;
+      if (replyToId && !(await isValidReplyTarget(replyToId, id))) {
+        return res.status(400).json({ message: "Cannot reply to a message outside this conversation" });
+      }
+      
+      const storageKey = randomUUID();
+      await fileStorage.save(storageKey, file.buffer);
+      
+      let message: MessageWithSender;
+      try {
+        message = await storage.createMessage(
+          { conversationId: id, senderId: userId, content, replyToId },
+          [{ storageKey, fileName: file.originalname, mimeType: file.mimetype, size: file.size }],
+        );
+      } catch (error) {
+        await removeStoredFiles([{ storageKey }]);
+        throw error;
+      }
+      
+      await typing.stop(id, userId);
+      
+      const conversation = await storage.getConversation(id);
+      res.json(message);
+      
+      if (conversation) {
+        broadcastMessage(conversation, message).catch(error => {
+          console.error("Error broadcasting message:", error);
+        });
+      }
+    } catch (error) {
+      console.error("Error sending attachment:", error);
+      res.status(500).json({ message: "Failed to send attachment" });
+    }
+  });
+
+  // Download an attachment; images can also be displayed inline
+  app.get('/api/attachments/:id', isAuthenticated, serveAttachment("inline"));
+  app.get('/api/attachments/:id/download', isAuthenticated, serveAttachment("attachment"));
+
+  // Edit one of your own messages
+  app.patch('/api/messages/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const message = await storage.getMessage(id);
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (message.senderId !== userId || message.type !== 'text') {
+        return res.status(403).json({ message: "You can only edit your own messages" });
+      }
+      // Members who left or were removed keep authorship but lose access
+      const isParticipant = await storage.isUserInConversation(userId, message.conversationId!);
+      if (!isParticipant) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const validationResult = updateMessageSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid message",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const { content } = validationResult.data;
+      if (content === message.content) {
+        return res.json(message);
+      }
+      
+      const updated = await storage.updateMessageContent(id, content);
+      const conversation = await storage.getConversation(message.conversationId!);
+      res.json(updated);
+      
+      if (conversation) {
+        broadcastMessage(conversation, updated, 'message_updated').catch(error => {
+          console.error("Error broadcasting message edit:", error);
+        });
+      }
+    } catch (error) {
+      console.error("Error editing message:", error);
+      res.status(500).json({ message: "Failed to edit message" });
+    }
+  });
+
+  // Delete one of your own messages for everyone
+  app.delete('/api/messages/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const message = await storage.getMessage(id);
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (message.senderId !== userId || message.type !== 'text') {
+        return res.status(403).json({ message: "You can only delete your own messages" });
+      }
+      // Members who left or were removed keep authorship but lose access
+      const isParticipant = await storage.isUserInConversation(userId, message.conversationId!);
+      if (!isParticipant) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const removedFiles = await storage.deleteMessage(id);
+      await removeStoredFiles(removedFiles);
+      
+      const conversationId = message.conversationId!;
+      connections.sendToUsers(await memberships.getMemberIds(conversationId), {
+        type: 'message_deleted',
+        conversationId,
+        messageId: id,
+      });
+      await sendUnreadCounts(conversationId);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // React to a message
+  app.put('/api/messages/:id/reactions/:emoji', isAuthenticated, changeReaction("add"));
+  app.delete('/api/messages/:id/reactions/:emoji', isAuthenticated, changeReaction("remove"));
+
+  // Previous versions of an edited message
+  app.get('/api/messages/:id/edits', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const message = await storage.getMessage(id);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const isParticipant = await storage.isUserInConversation(userId, message.conversationId!);
+      if (!isParticipant) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(await storage.getMessageEdits(id));
+    } catch (error) {
+      console.error("Error fetching message edits:", error);
+      res.status(500).json({ message: "Failed to fetch message edits" });
+    }
+  });
+
+  // Mark a conversation as read up to a message
+  app.post('/api/conversations/:id/read', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const isParticipant = await storage.isUserInConversation(userId, id);
+      if (!isParticipant) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const validationResult = z.object({ messageId: z.string().uuid() }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid read receipt",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const message = await storage.getMessage(validationResult.data.messageId);
+      if (!message || message.conversationId !== id) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      
+      await recordReadReceipt(userId, message);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error marking conversation read:", error);
+      res.status(500).json({ message: "Failed to mark conversation read" });
+    }
+  });
+
+  // Translate a single message on demand, for readers without auto-translate
+  app.post('/api/messages/:id/translate', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const message = await storage.getMessage(id);
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const isParticipant = await storage.isUserInConversation(userId, message.conversationId!);
+      if (!isParticipant) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const validationResult = z.object({ targetLanguage: z.string().min(2).max(10).optional() }).safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid translation request",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      // Default to the language the reader uses the app in
+      const user = await storage.getUser(userId);
+      const targetLanguage = validationResult.data.targetLanguage || user?.preferredLanguage || 'en';
+      
+      if (message.language === targetLanguage) {
+        return res.status(422).json({ message: "Message is already in the target language" });
+      }
+      
+      const [translated] = await translationService.translateMessages([message], targetLanguage);
+      if (!translated.translation) {
+        return res.status(422).json({ message: "Message could not be translated" });
+      }
+      
+      res.json(translated.translation);
+    } catch (error) {
+      console.error("Error translating message:", error);
+      res.status(500).json({ message: "Failed to translate message" });
+    }
+  });
+
+  // Update a group's name, description or avatar
+  app.patch('/api/conversations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const membership = await getGroupMembership(id, userId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!hasPermission(membership.actor.role, 'edit_info')) {
+        return res.status(403).json({ message: "Only admins can edit the group" });
+      }
+      
+      const validationResult = updateConversationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid conversation data",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const updates = validationResult.data;
+      const changes = (['name', 'description', 'avatarUrl'] as const).filter(
+        field => updates[field] !== undefined && updates[field] !== membership.conversation[field]
+      );
+      if (changes.length === 0) {
+        return res.json(membership.conversation);
+      }
+      
+      const conversation = await storage.updateConversation(id, updates);
+      const memberIds = membership.conversation.participants.map(p => p.userId);
+      const actorName = getDisplayName(membership.actor.user);
+      
+      await postSystemMessage(
+        id,
+        userId,
+        changes.includes('name')
+          ? `${actorName} renamed the group to "${conversation.name}"`
+          : `${actorName} updated the group info`,
+        { event: 'conversation_updated', changes, name: changes.includes('name') ? conversation.name! : undefined },
+        memberIds,
+      );
+      connections.sendToUsers(memberIds, {
+        type: 'conversation_updated',
         conversationId: id,
-        senderId: userId,
+        conversation,
       });
       
-      const message = await storage.createMessage({
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error updating conversation:", error);
+      res.status(500).json({ message: "Failed to update conversation" });
+    }
+  });
+
+  // Add members to a group
+  app.post('/api/conversations/:id/participants', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const membership = await getGroupMembership(id, userId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!hasPermission(membership.actor.role, 'add_members')) {
+        return res.status(403).json({ message: "Only admins can add members" });
+      }
+      
+      const validationResult = z.object({ userIds: z.array(z.string()).min(1) }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid participant data",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const { userIds } = validationResult.data;
+      const memberIds = membership.conversation.participants.map(p => p.userId);
+      const addedIds: string[] = [];
+      
+      for (const newId of Array.from(new Set(userIds))) {
+        const newUser = await storage.getUser(newId);
+        if (!newUser) continue;
+        
+        // The unique (conversation, user) constraint makes re-adding a member a no-op
+        const added = await storage.addParticipant({ conversationId: id, userId: newId });
+        if (!added) continue;
+        memberships.invalidate(id);
+        
+        addedIds.push(newId);
+        memberIds.push(newId);
+        await postSystemMessage(
+          id,
+          userId,
+          `${getDisplayName(membership.actor.user)} added ${getDisplayName(newUser)}`,
+          { event: 'participant_added', userId: newId, userName: getDisplayName(newUser), addedBy: userId },
+          memberIds,
+        );
+        connections.sendToUsers(memberIds, {
+          type: 'participant_added',
+          conversationId: id,
+          userId: newId,
+        });
+      }
+      
+      if (addedIds.length === 0) {
+        return res.status(409).json({ message: "Selected users are already members" });
+      }
+      
+      const conversation = await storage.getConversation(id);
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error adding participants:", error);
+      res.status(500).json({ message: "Failed to add participants" });
+    }
+  });
+
+  // Remove a member from a group
+  app.delete('/api/conversations/:id/participants/:userId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, userId: targetId } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const membership = await getGroupMembership(id, userId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const target = membership.conversation.participants.find(p => p.userId === targetId);
+      if (!target) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+      if (targetId === userId || !canRemoveParticipant(membership.actor.role, target.role)) {
+        return res.status(403).json({ message: "You cannot remove this member" });
+      }
+      
+      await storage.removeParticipant(id, targetId);
+      memberships.invalidate(id);
+      await typing.stop(id, targetId);
+      
+      const remainingIds = membership.conversation.participants
+        .map(p => p.userId)
+        .filter(participantId => participantId !== targetId);
+      
+      await postSystemMessage(
+        id,
+        userId,
+        `${getDisplayName(membership.actor.user)} removed ${getDisplayName(target.user)}`,
+        { event: 'participant_removed', userId: targetId, userName: getDisplayName(target.user), removedBy: userId },
+        remainingIds,
+      );
+      connections.sendToUsers([...remainingIds, targetId], {
+        type: 'participant_removed',
         conversationId: id,
-        senderId: userId,
-        content,
+        userId: targetId,
       });
       
-      // Broadcast message to all participants via WebSocket
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing participant:", error);
+      res.status(500).json({ message: "Failed to remove participant" });
+    }
+  });
+
+  // Change a member's role. Making someone owner transfers ownership and
+  // demotes the current owner to admin.
+  app.patch('/api/conversations/:id/participants/:userId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, userId: targetId } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const membership = await getGroupMembership(id, userId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!hasPermission(membership.actor.role, 'change_roles') || targetId === userId) {
+        return res.status(403).json({ message: "Only the owner can change roles" });
+      }
+      
+      const target = membership.conversation.participants.find(p => p.userId === targetId);
+      if (!target) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+      
+      const validationResult = z.object({ role: participantRoleSchema }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid role",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const { role } = validationResult.data;
+      const memberIds = membership.conversation.participants.map(p => p.userId);
+      const changes: { userId: string; role: typeof role }[] = [{ userId: targetId, role }];
+      if (role === 'owner') {
+        changes.push({ userId, role: 'admin' });
+      }
+      
+      for (const change of changes) {
+        await storage.updateParticipantRole(id, change.userId, change.role);
+        connections.sendToUsers(memberIds, {
+          type: 'participant_role_changed',
+          conversationId: id,
+          userId: change.userId,
+          role: change.role,
+        });
+      }
+      await postSystemMessage(
+        id,
+        userId,
+        `${getDisplayName(target.user)} is now ${role}`,
+        { event: 'role_changed', userId: targetId, userName: getDisplayName(target.user), role },
+        memberIds,
+      );
+      
       const conversation = await storage.getConversation(id);
-      if (conversation) {
-        const participantIds = conversation.participants.map(p => p.userId);
-        console.log(`Broadcasting message to participants:`, participantIds);
-        for (const participantId of participantIds) {
-          if (participantId) {
-            const ws = wsConnections.get(participantId);
-            if (ws && ws.readyState === WebSocket.OPEN) {
-              console.log(`Sending WebSocket message to user ${participantId}`);
-              ws.send(JSON.stringify({
-                type: 'new_message',
-                message,
-                conversationId: id,
-              }));
-            } else {
-              console.log(`User ${participantId} not connected or WebSocket closed`);
-            }
-          }
-        }
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error changing participant role:", error);
+      res.status(500).json({ message: "Failed to change participant role" });
+    }
+  });
+
+  // Leave a conversation. Groups drop the membership and notify the remaining
+  // members; 1:1 chats are only hidden until the next message arrives.
+  app.post('/api/conversations/:id/leave', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const conversation = await storage.getConversation(id);
+      const participant = conversation?.participants.find(p => p.userId === userId);
+      if (!conversation || !participant) {
+        return res.status(403).json({ message: "Access denied" });
       }
       
-      res.json(message);
+      if (!conversation.isGroup) {
+        await storage.hideConversation(id, userId);
+        connections.sendToUser(userId, {
+          type: 'conversation_hidden',
+          conversationId: id,
+        });
+        return res.status(204).end();
+      }
+      
+      await storage.removeParticipant(id, userId);
+      memberships.invalidate(id);
+      await typing.stop(id, userId);
+      
+      const remaining = conversation.participants.filter(p => p.userId !== userId);
+      const remainingIds = remaining.map(p => p.userId);
+      
+      await postSystemMessage(
+        id,
+        userId,
+        `${getDisplayName(participant.user)} left the conversation`,
+        { event: 'participant_left', userId },
+        remainingIds,
+      );
+      // The leaving user's other tabs need to drop the conversation too
+      connections.sendToUsers([...remainingIds, userId], {
+        type: 'participant_left',
+        conversationId: id,
+        userId,
+      });
+      
+      // A group never stays without an owner
+      const nextOwner = participant.role === 'owner' ? pickNextOwner(remaining) : undefined;
+      if (nextOwner?.userId) {
+        await storage.updateParticipantRole(id, nextOwner.userId, 'owner');
+        connections.sendToUsers(remainingIds, {
+          type: 'participant_role_changed',
+          conversationId: id,
+          userId: nextOwner.userId,
+          role: 'owner',
+        });
+        await postSystemMessage(
+          id,
+          nextOwner.userId,
+          `${getDisplayName(nextOwner.user)} is now owner`,
+          { event: 'role_changed', userId: nextOwner.userId, userName: getDisplayName(nextOwner.user), role: 'owner' },
+          remainingIds,
+        );
+      }
+      
+      res.status(204).end();
     } catch (error) {
-      console.error("Error sending message:", error);
-      res.status(500).json({ message: "Failed to send message" });
+      console.error("Error leaving conversation:", error);
+      res.status(500).json({ message: "Failed to leave conversation" });
     }
   });
 
   const httpServer = createServer(app);
 
-  // WebSocket server setup
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // WebSocket server setup. Upgrades are authenticated against the login
+  // session, so the user id is never taken from the client.
+  const wss = new WebSocketServer({ noServer: true });
+  presence.start();
+
+  httpServer.on('upgrade', async (req, socket, head) => {
+    // Leave other upgrade requests (e.g. Vite HMR) to their own handlers
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/ws') return;
 
-  wss.on('connection', (ws, req) => {
     let userId: string | null = null;
+    try {
+      userId = await authenticateUpgrade(req);
+    } catch (error) {
+      console.error('WebSocket authentication error:', error);
+    }
+
+    if (!userId) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      handleConnection(ws, userId);
+    });
+  });
+
+  function handleConnection(ws: WebSocket, userId: string) {
+    const connection = connections.add(userId, ws);
+    console.log(`User ${userId} connected via WebSocket (${connection.id})`);
+    presence.connected(connection).catch(error => {
+      console.error('Error broadcasting presence:', error);
+    });
 
     ws.on('message', (data) => {
+      // Any frame counts as a sign of life
+      presence.heartbeat(connection.id);
+
       try {
         const message = JSON.parse(data.toString());
         
-        if (message.type === 'auth') {
-          userId = message.userId;
-          if (userId) {
-            wsConnections.set(userId, ws);
-            console.log(`User ${userId} connected via WebSocket`);
-          }
-        }
-        
-        if (message.type === 'typing' && userId) {
-          // Broadcast typing indicator to other participants
-          const { conversationId, isTyping } = message;
-          storage.getConversation(conversationId).then(conversation => {
-            if (conversation) {
-              const participantIds = conversation.participants
-                .map(p => p.userId)
-                .filter(id => id !== userId);
-              
-              for (const participantId of participantIds) {
-                if (participantId) {
-                  const participantWs = wsConnections.get(participantId);
-                  if (participantWs && participantWs.readyState === WebSocket.OPEN) {
-                    participantWs.send(JSON.stringify({
-                      type: 'typing',
-                      conversationId,
-                      userId,
-                      isTyping,
-                    }));
-                  }
-                }
-              }
-            }
+        if (message.type === 'heartbeat') {
+          return;
+        } else if (message.type === 'typing') {
+          // Membership is checked against the in-memory cache, not the database
+          typing.setTyping(message.conversationId, userId, !!message.isTyping).catch(error => {
+            console.error('Error updating typing state:', error);
+          });
+        } else if (message.type === 'mark_read') {
+          // Same as POST /api/conversations/:id/read, without a response
+          const { conversationId, messageId } = message;
+          storage.getMessage(messageId).then(async readMessage => {
+            if (!readMessage || readMessage.conversationId !== conversationId) return;
+            await recordReadReceipt(userId, readMessage);
+          }).catch(error => {
+            console.error('Error recording read receipt:', error);
           });
         }
       } catch (error) {
@@ -287,12 +1169,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     ws.on('close', () => {
-      if (userId) {
-        wsConnections.delete(userId);
-        console.log(`User ${userId} disconnected from WebSocket`);
+      connections.remove(connection.id);
+      console.log(`User ${userId} disconnected from WebSocket (${connection.id})`);
+      presence.disconnected(connection).catch(error => {
+        console.error('Error broadcasting presence:', error);
+      });
+      if (!connections.isOnline(userId)) {
+        typing.stopAll(userId).catch(error => {
+          console.error('Error clearing typing state:', error);
+        });
       }
     });
-  });
+  }
 
   return httpServer;
 }
@@ -0,0 +1,27 @@
+import { findMatchRanges } from "@shared/search";
+import type { MessageSearchResult } from "@shared/schema";
+
+// Characters of context shown around a match
+const SNIPPET_LENGTH = 120;
+
+// Escape LIKE wildcards so terms match literally
+export function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, "\\$&");
+}
+
+// Cut an excerpt of the content centred on the first matching term and mark
+// every occurrence of each term within it
+export function buildSnippet(content: string, terms: string[]): Pick<MessageSearchResult, "snippet" | "highlights"> {
+  const lower = content.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(index => index >= 0);
+  const firstMatch = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const end = Math.min(content.length, Math.max(firstMatch - SNIPPET_LENGTH / 3, 0) + SNIPPET_LENGTH);
+  const start = Math.max(0, end - SNIPPET_LENGTH);
+  const prefix = start > 0 ? "…" : "";
+  const snippet = prefix + content.slice(start, end) + (end < content.length ? "…" : "");
+
+  const highlights = findMatchRanges(content.slice(start, end), terms)
+    .map(([from, to]): [number, number] => [prefix.length + from, prefix.length + to]);
+  return { snippet, highlights };
+}
@@ -3,19 +3,47 @@ import {
   conversations,
   messages,
   participants,
+  messageTranslations,
+  messageEdits,
+  attachments,
+  reactions,
   type User,
   type UpsertUser,
   type Conversation,
   type InsertConversation,
   type Message,
   type InsertMessage,
+  type MessageEdit,
+  type Attachment,
+  type InsertAttachment,
+  type Participant,
   type InsertParticipant,
+  type ParticipantRole,
   type ConversationWithParticipants,
   type MessageWithSender,
+  type ReplyPreview,
+  type ReactionEmoji,
+  type ReactionSummary,
   type UpdateUserSettings,
+  type MessageTranslation,
+  type InsertMessageTranslation,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, or, ilike, inArray } from "drizzle-orm";
+import { detectLanguage } from "./languageDetection";
+import { escapeLikePattern } from "./search";
+import { pickNextOwner } from "@shared/permissions";
+import { eq, and, desc, sql, or, ilike, inArray, isNull, isNotNull, lt, type SQL } from "drizzle-orm";
+
+// Longest excerpt of a parent message quoted in a reply
+const REPLY_SNIPPET_LENGTH = 100;
+
+// Messages strictly before or after the cursor message in (createdAt, id)
+// order. The cursor's position is read inside the query because timestamps
+// carry microseconds that a round trip through Date would truncate.
+function beyondCursor(cursorId: string, direction: "before" | "after"): SQL {
+  const operator = direction === "before" ? sql`<` : sql`>`;
+  return sql`(${messages.createdAt}, ${messages.id}) ${operator} (select created_at, id from messages where id = ${cursorId})`;
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -23,22 +51,51 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserSettings(userId: string, settings: UpdateUserSettings): Promise<User>;
   
+  updateLastSeen(userId: string, lastSeenAt: Date): Promise<void>;
+  
   // User search
   searchUsers(query: string, currentUserId: string): Promise<User[]>;
+  getContacts(userId: string): Promise<User[]>;
   
   // Conversation operations
   getUserConversations(userId: string): Promise<ConversationWithParticipants[]>;
   getConversation(conversationId: string): Promise<ConversationWithParticipants | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   getOrCreateDirectConversation(userId1: string, userId2: string): Promise<Conversation>;
+  updateConversation(conversationId: string, updates: Partial<InsertConversation>): Promise<Conversation>;
   
   // Participant operations
-  addParticipant(participant: InsertParticipant): Promise<void>;
+  addParticipant(participant: InsertParticipant): Promise<boolean>;
   removeParticipant(conversationId: string, userId: string): Promise<void>;
+  hideConversation(conversationId: string, userId: string): Promise<void>;
+  updateParticipantRole(conversationId: string, userId: string, role: ParticipantRole): Promise<void>;
+  assignMissingGroupOwners(): Promise<number>;
+  markMessagesRead(conversationId: string, userId: string, message: Pick<Message, "id">): Promise<Participant | undefined>;
+  getUnreadCounts(conversationId: string): Promise<Map<string, number>>;
   
   // Message operations
-  getMessages(conversationId: string, limit?: number, offset?: number): Promise<MessageWithSender[]>;
-  createMessage(message: InsertMessage): Promise<MessageWithSender>;
+  getMessages(conversationId: string, page?: { before?: string; after?: string; limit?: number }): Promise<MessageWithSender[] | undefined>;
+  getMessage(messageId: string): Promise<MessageWithSender | undefined>;
+  createMessage(message: InsertMessage, files?: InsertAttachment[]): Promise<MessageWithSender>;
+  createMessageOnce(message: InsertMessage & { id: string }): Promise<MessageWithSender | undefined>;
+  updateMessageContent(messageId: string, content: string): Promise<MessageWithSender>;
+  deleteMessage(messageId: string): Promise<Attachment[]>;
+  getMessageEdits(messageId: string): Promise<MessageEdit[]>;
+  getMessagesAround(conversationId: string, messageId: string, limit?: number): Promise<MessageWithSender[] | undefined>;
+  getPreviousMessageId(conversationId: string, messageId: string): Promise<string | null>;
+  searchMessages(userId: string, terms: string[], options: { limit: number; conversationId?: string }): Promise<MessageWithSender[]>;
+
+  // Attachment operations
+  getAttachment(attachmentId: string): Promise<(Attachment & { conversationId: string | null }) | undefined>;
+
+  // Reaction operations
+  addReaction(messageId: string, userId: string, emoji: ReactionEmoji): Promise<void>;
+  removeReaction(messageId: string, userId: string, emoji: ReactionEmoji): Promise<void>;
+  getReactions(messageId: string): Promise<ReactionSummary[]>;
+  
+  // Translation cache
+  getMessageTranslations(messageIds: string[], targetLanguage: string, provider: string): Promise<MessageTranslation[]>;
+  saveMessageTranslation(translation: InsertMessageTranslation): Promise<void>;
   
   // Utility
   isUserInConversation(userId: string, conversationId: string): Promise<boolean>;
@@ -65,6 +122,31 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateLastSeen(userId: string, lastSeenAt: Date): Promise<void> {
+    await db
+      .update(users)
+      .set({ lastSeenAt })
+      .where(eq(users.id, userId));
+  }
+
+  // Everyone who shares at least one conversation with the user
+  async getContacts(userId: string): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(
+        and(
+          sql`${users.id} IN (
+            SELECT p2.user_id
+            FROM participants p1
+            JOIN participants p2 ON p1.conversation_id = p2.conversation_id
+            WHERE p1.user_id = ${userId}
+          )`,
+          sql`${users.id} != ${userId}`
+        )
+      );
+  }
+
   async searchUsers(query: string, currentUserId: string): Promise<User[]> {
     return await db
       .select()
@@ -92,7 +174,7 @@ export class DatabaseStorage implements IStorage {
       .from(participants)
       .innerJoin(conversations, eq(participants.conversationId, conversations.id))
       .innerJoin(users, eq(participants.userId, users.id))
-      .where(eq(participants.userId, userId))
+      .where(and(eq(participants.userId, userId), isNull(participants.hiddenAt)))
       .orderBy(desc(conversations.updatedAt));
 
     // Get last message for each conversation
@@ -149,6 +231,17 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    // Add unread counts
+    const unreadCounts = new Map<string, number>();
+    if (conversationIds.length > 0) {
+      const unreadRows = await this.selectUnreadCounts(
+        and(eq(participants.userId, userId), inArray(participants.conversationId, conversationIds))!
+      );
+      for (const row of unreadRows) {
+        unreadCounts.set(row.conversationId!, row.count);
+      }
+    }
+
     // Add last messages
     const lastMessageMap = new Map<string, typeof lastMessages[0]>();
     for (const msg of lastMessages) {
@@ -159,6 +252,7 @@ export class DatabaseStorage implements IStorage {
 
     const result = Array.from(conversationMap.values());
     for (const conv of result) {
+      conv.unreadCount = unreadCounts.get(conv.id) ?? 0;
       const lastMsg = lastMessageMap.get(conv.id);
       if (lastMsg) {
         conv.lastMessage = {
@@ -225,7 +319,18 @@ export class DatabaseStorage implements IStorage {
       .limit(1);
 
     if (existingConversation.length > 0) {
-      return existingConversation[0].conversation;
+      const conversation = existingConversation[0].conversation;
+      // Reopening a chat the user had hidden brings it back to their list
+      await db
+        .update(participants)
+        .set({ hiddenAt: null })
+        .where(
+          and(
+            eq(participants.conversationId, conversation.id),
+            eq(participants.userId, userId1)
+          )
+        );
+      return conversation;
     }
 
     // Create new direct conversation
@@ -247,8 +352,26 @@ export class DatabaseStorage implements IStorage {
     return newConversation;
   }
 
-  async addParticipant(participant: InsertParticipant): Promise<void> {
-    await db.insert(participants).values(participant);
+  async updateConversation(conversationId: string, updates: Partial<InsertConversation>): Promise<Conversation> {
+    const [updatedConversation] = await db
+      .update(conversations)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(eq(conversations.id, conversationId))
+      .returning();
+    return updatedConversation;
+  }
+
+  // Returns false when the user is already a member
+  async addParticipant(participant: InsertParticipant): Promise<boolean> {
+    const inserted = await db
+      .insert(participants)
+      .values(participant)
+      .onConflictDoNothing({ target: [participants.conversationId, participants.userId] })
+      .returning({ id: participants.id });
+    return inserted.length > 0;
   }
 
   async removeParticipant(conversationId: string, userId: string): Promise<void> {
@@ -262,7 +385,125 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
-  async getMessages(conversationId: string, limit = 50, offset = 0): Promise<MessageWithSender[]> {
+  async hideConversation(conversationId: string, userId: string): Promise<void> {
+    await db
+      .update(participants)
+      .set({ hiddenAt: new Date() })
+      .where(
+        and(
+          eq(participants.conversationId, conversationId),
+          eq(participants.userId, userId)
+        )
+      );
+  }
+
+  async updateParticipantRole(conversationId: string, userId: string, role: ParticipantRole): Promise<void> {
+    await db
+      .update(participants)
+      .set({ role })
+      .where(
+        and(
+          eq(participants.conversationId, conversationId),
+          eq(participants.userId, userId)
+        )
+      );
+  }
+
+  // Groups created before roles existed have every member as `member`. Their
+  // creator becomes the owner if still a member; otherwise the successor rule
+  // used when an owner leaves picks one. Returns how many groups were fixed.
+  async assignMissingGroupOwners(): Promise<number> {
+    const ownerless = await db
+      .select({ id: conversations.id, createdBy: conversations.createdBy })
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.isGroup, true),
+          sql`not exists (select 1 from participants where conversation_id = ${conversations.id} and role = 'owner')`
+        )
+      );
+
+    let assigned = 0;
+    for (const group of ownerless) {
+      const members = await db
+        .select()
+        .from(participants)
+        .where(eq(participants.conversationId, group.id));
+      const owner = members.find(m => m.userId === group.createdBy) ?? pickNextOwner(members);
+      if (!owner?.userId) continue;
+
+      await this.updateParticipantRole(group.id, owner.userId, 'owner');
+      assigned++;
+    }
+    return assigned;
+  }
+
+  // Moves the user's read pointer forward to the given message, never back.
+  // Returns the updated participant, or undefined when nothing changed.
+  async markMessagesRead(
+    conversationId: string,
+    userId: string,
+    message: Pick<Message, "id">,
+  ): Promise<Participant | undefined> {
+    // Read from the row itself: passing createdAt through a JS Date would drop
+    // the microseconds and leave the message newer than the pointer, i.e. unread
+    const readAt = sql`(select created_at from messages where id = ${message.id})`;
+    const [updated] = await db
+      .update(participants)
+      .set({ lastReadMessageId: message.id, lastReadAt: readAt })
+      .where(
+        and(
+          eq(participants.conversationId, conversationId),
+          eq(participants.userId, userId),
+          or(isNull(participants.lastReadAt), lt(participants.lastReadAt, readAt))
+        )
+      )
+      .returning();
+    return updated;
+  }
+
+  // Unread count per participant of a conversation, keyed by user id
+  async getUnreadCounts(conversationId: string): Promise<Map<string, number>> {
+    const rows = await this.selectUnreadCounts(eq(participants.conversationId, conversationId));
+    return new Map(rows.map(row => [row.userId!, row.count]));
+  }
+
+  // Counts, per participant row matching `condition`, the messages from other
+  // users newer than their read pointer (or their join date, before they have
+  // read anything)
+  private selectUnreadCounts(condition: SQL) {
+    return db
+      .select({
+        conversationId: participants.conversationId,
+        userId: participants.userId,
+        count: sql<number>`count(${messages.id})::int`,
+      })
+      .from(participants)
+      .leftJoin(
+        messages,
+        and(
+          eq(messages.conversationId, participants.conversationId),
+          sql`${messages.senderId} IS DISTINCT FROM ${participants.userId}`,
+          isNull(messages.deletedAt),
+          sql`${messages.createdAt} > coalesce(${participants.lastReadAt}, ${participants.joinedAt})`
+        )
+      )
+      .where(condition)
+      .groupBy(participants.conversationId, participants.userId);
+  }
+
+  // One page of a conversation in chronological order: the newest messages,
+  // or those just before or after a cursor message. Undefined when the cursor
+  // is not part of the conversation.
+  async getMessages(
+    conversationId: string,
+    { before, after, limit = 50 }: { before?: string; after?: string; limit?: number } = {},
+  ): Promise<MessageWithSender[] | undefined> {
+    const cursorId = before ?? after;
+    if (cursorId && !(await this.isMessageInConversation(cursorId, conversationId))) {
+      return undefined;
+    }
+
     const messageRows = await db
       .select({
         message: messages,
@@ -270,38 +511,446 @@ export class DatabaseStorage implements IStorage {
       })
       .from(messages)
       .innerJoin(users, eq(messages.senderId, users.id))
-      .where(eq(messages.conversationId, conversationId))
-      .orderBy(desc(messages.createdAt))
-      .limit(limit)
-      .offset(offset);
+      .where(
+        and(
+          eq(messages.conversationId, conversationId),
+          before ? beyondCursor(before, "before") : undefined,
+          after ? beyondCursor(after, "after") : undefined
+        )
+      )
+      .orderBy(...(after
+        ? [messages.createdAt, messages.id]
+        : [desc(messages.createdAt), desc(messages.id)]))
+      .limit(limit);
 
-    return messageRows.map(row => ({
+    const messageList = messageRows.map(row => ({
       ...row.message,
       sender: row.sender,
-    })).reverse(); // Reverse to get chronological order
+    }));
+    // Pages read backwards from a cursor are reversed into chronological order
+    return this.attachDetails(after ? messageList : messageList.reverse());
   }
 
-  async createMessage(message: InsertMessage): Promise<MessageWithSender> {
-    const [newMessage] = await db
-      .insert(messages)
-      .values(message)
-      .returning();
+  private async isMessageInConversation(messageId: string, conversationId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(and(eq(messages.id, messageId), eq(messages.conversationId, conversationId)));
+    return !!row;
+  }
+
+  // A window of messages centred on one, in chronological order. Undefined
+  // when the message is not part of the conversation.
+  async getMessagesAround(conversationId: string, messageId: string, limit = 50): Promise<MessageWithSender[] | undefined> {
+    if (!(await this.isMessageInConversation(messageId, conversationId))) return undefined;
+
+    const newerCount = Math.floor(limit / 2);
+    const [olderRows, newerRows] = await Promise.all([
+      // The target itself and the messages before it
+      db
+        .select({ message: messages, sender: users })
+        .from(messages)
+        .innerJoin(users, eq(messages.senderId, users.id))
+        .where(
+          and(
+            eq(messages.conversationId, conversationId),
+            or(eq(messages.id, messageId), beyondCursor(messageId, "before"))
+          )
+        )
+        .orderBy(desc(messages.createdAt), desc(messages.id))
+        .limit(limit - newerCount),
+      db
+        .select({ message: messages, sender: users })
+        .from(messages)
+        .innerJoin(users, eq(messages.senderId, users.id))
+        .where(and(eq(messages.conversationId, conversationId), beyondCursor(messageId, "after")))
+        .orderBy(messages.createdAt, messages.id)
+        .limit(newerCount),
+    ]);
+
+    return this.attachDetails([...olderRows.reverse(), ...newerRows].map(row => ({
+      ...row.message,
+      sender: row.sender,
+    })));
+  }
+
+  // The message just before this one in its conversation, or null for the first
+  async getPreviousMessageId(conversationId: string, messageId: string): Promise<string | null> {
+    const [row] = await db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), beyondCursor(messageId, "before")))
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(1);
+    return row?.id ?? null;
+  }
+
+  async getMessage(messageId: string): Promise<MessageWithSender | undefined> {
+    const [row] = await db
+      .select({
+        message: messages,
+        sender: users,
+      })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(eq(messages.id, messageId));
+
+    if (!row) return undefined;
+    const [message] = await this.attachDetails([{
+      ...row.message,
+      sender: row.sender,
+    }]);
+    return message;
+  }
+
+  // Reply previews, attachments and reactions, each loaded in one query
+  private async attachDetails(messageList: MessageWithSender[]): Promise<MessageWithSender[]> {
+    const withFiles = await this.attachFiles(await this.attachReplyPreviews(messageList));
+    const summaries = await this.summarizeReactions(withFiles.map(m => m.id));
+    return withFiles.map(message => {
+      const messageReactions = summaries.get(message.id);
+      return messageReactions ? { ...message, reactions: messageReactions } : message;
+    });
+  }
+
+  // Load the quoted parents of any replies in one query
+  private async attachReplyPreviews(messageList: MessageWithSender[]): Promise<MessageWithSender[]> {
+    const parentIds = Array.from(new Set(
+      messageList.map(m => m.replyToId).filter((id): id is string => !!id)
+    ));
+    if (parentIds.length === 0) return messageList;
+
+    const parentRows = await db
+      .select({
+        message: messages,
+        sender: users,
+      })
+      .from(messages)
+      .leftJoin(users, eq(messages.senderId, users.id))
+      .where(inArray(messages.id, parentIds));
+
+    const previews = new Map<string, ReplyPreview>();
+    for (const row of parentRows) {
+      if (row.message.deletedAt) continue;
+      previews.set(row.message.id, {
+        id: row.message.id,
+        sender: row.sender && {
+          id: row.sender.id,
+          firstName: row.sender.firstName,
+          lastName: row.sender.lastName,
+          email: row.sender.email,
+        },
+        snippet: row.message.content.slice(0, REPLY_SNIPPET_LENGTH),
+        deleted: false,
+      });
+    }
+
+    return messageList.map(message => {
+      if (!message.replyToId) return message;
+      return {
+        ...message,
+        replyTo: previews.get(message.replyToId) ?? {
+          id: message.replyToId,
+          sender: null,
+          snippet: null,
+          deleted: true,
+        },
+      };
+    });
+  }
+
+  // Group each message's attachments in one query
+  private async attachFiles(messageList: MessageWithSender[]): Promise<MessageWithSender[]> {
+    if (messageList.length === 0) return messageList;
+
+    const rows = await db
+      .select()
+      .from(attachments)
+      .where(inArray(attachments.messageId, messageList.map(m => m.id)))
+      .orderBy(attachments.createdAt);
+
+    const byMessage = new Map<string, Attachment[]>();
+    for (const row of rows) {
+      const list = byMessage.get(row.messageId) ?? [];
+      list.push(row);
+      byMessage.set(row.messageId, list);
+    }
+
+    return messageList.map(message => {
+      const files = byMessage.get(message.id);
+      return files ? { ...message, attachments: files } : message;
+    });
+  }
+
+  async createMessage(message: InsertMessage, files: InsertAttachment[] = []): Promise<MessageWithSender> {
+    // A generated id cannot already be taken
+    return (await this.insertMessage(message, files))!;
+  }
+
+  // For ids chosen by the client: creates the message unless the id is
+  // already taken, in which case nothing is written and undefined is returned.
+  // Safe against concurrent retries of the same send.
+  async createMessageOnce(message: InsertMessage & { id: string }): Promise<MessageWithSender | undefined> {
+    return this.insertMessage(message, []);
+  }
+
+  private async insertMessage(
+    message: InsertMessage & { id?: string },
+    files: InsertAttachment[],
+  ): Promise<MessageWithSender | undefined> {
+    const inserted = await db.transaction(async (tx) => {
+      const [newMessage] = await tx
+        .insert(messages)
+        .values({
+          ...message,
+          language: message.type === 'system' || !message.content ? null : detectLanguage(message.content),
+        })
+        .onConflictDoNothing({ target: messages.id })
+        .returning();
+      if (!newMessage) return undefined;
+
+      const newAttachments = files.length === 0 ? [] : await tx
+        .insert(attachments)
+        .values(files.map(file => ({ ...file, messageId: newMessage.id })))
+        .returning();
+      return { newMessage, newAttachments };
+    });
+    if (!inserted) return undefined;
+    const { newMessage, newAttachments } = inserted;
 
     const [sender] = await db
       .select()
       .from(users)
       .where(eq(users.id, message.senderId!));
 
+    // Senders have read everything up to their own message
+    await this.markMessagesRead(message.conversationId!, message.senderId!, newMessage);
+
     // Update conversation's updatedAt
     await db
       .update(conversations)
       .set({ updatedAt: new Date() })
       .where(eq(conversations.id, message.conversationId!));
 
-    return {
+    // A new message brings hidden chats back for everyone
+    await db
+      .update(participants)
+      .set({ hiddenAt: null })
+      .where(
+        and(
+          eq(participants.conversationId, message.conversationId!),
+          isNotNull(participants.hiddenAt)
+        )
+      );
+
+    const [messageWithReply] = await this.attachReplyPreviews([{
       ...newMessage,
       sender,
-    };
+      ...(newAttachments.length > 0 && { attachments: newAttachments }),
+    }]);
+    return messageWithReply;
+  }
+
+  // Keeps the previous version in the edit history. Cached translations are
+  // dropped since they no longer match the content.
+  async updateMessageContent(messageId: string, content: string): Promise<MessageWithSender> {
+    await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ content: messages.content })
+        .from(messages)
+        .where(eq(messages.id, messageId));
+
+      await tx.insert(messageEdits).values({
+        messageId,
+        previousContent: current.content,
+      });
+      await tx
+        .update(messages)
+        .set({
+          content,
+          language: detectLanguage(content),
+          editedAt: new Date(),
+        })
+        .where(eq(messages.id, messageId));
+      await tx
+        .delete(messageTranslations)
+        .where(eq(messageTranslations.messageId, messageId));
+    });
+
+    return (await this.getMessage(messageId))!;
+  }
+
+  // Soft delete: the row stays as a tombstone so replies and read pointers
+  // remain valid, but its content, history, translations and attachments are
+  // removed. Returns the removed attachments so their files can be deleted.
+  async deleteMessage(messageId: string): Promise<Attachment[]> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(messages)
+        .set({
+          content: "",
+          language: null,
+          metadata: null,
+          deletedAt: new Date(),
+        })
+        .where(eq(messages.id, messageId));
+      await tx.delete(messageEdits).where(eq(messageEdits.messageId, messageId));
+      await tx
+        .delete(messageTranslations)
+        .where(eq(messageTranslations.messageId, messageId));
+      await tx.delete(reactions).where(eq(reactions.messageId, messageId));
+      return await tx
+        .delete(attachments)
+        .where(eq(attachments.messageId, messageId))
+        .returning();
+    });
+  }
+
+  async getMessageEdits(messageId: string): Promise<MessageEdit[]> {
+    return await db
+      .select()
+      .from(messageEdits)
+      .where(eq(messageEdits.messageId, messageId))
+      .orderBy(messageEdits.editedAt);
+  }
+
+  // Messages from the user's conversations that contain every term. Whole-word
+  // matches come from the full-text index and rank first; the substring
+  // fallback (trigram index) catches words with attached particles. Within a
+  // single conversation, matches are listed newest first instead.
+  async searchMessages(
+    userId: string,
+    terms: string[],
+    { limit, conversationId }: { limit: number; conversationId?: string },
+  ): Promise<MessageWithSender[]> {
+    if (terms.length === 0) return [];
+
+    const document = sql`to_tsvector('simple', ${messages.content})`;
+    const query = sql`plainto_tsquery('simple', ${terms.join(" ")})`;
+
+    const rows = await db
+      .select({
+        message: messages,
+        sender: users,
+      })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .innerJoin(
+        participants,
+        and(
+          eq(participants.conversationId, messages.conversationId),
+          eq(participants.userId, userId)
+        )
+      )
+      .where(
+        and(
+          eq(messages.type, 'text'),
+          isNull(messages.deletedAt),
+          conversationId ? eq(messages.conversationId, conversationId) : undefined,
+          or(
+            sql`${document} @@ ${query}`,
+            and(...terms.map(term => ilike(messages.content, `%${escapeLikePattern(term)}%`)))
+          )
+        )
+      )
+      .orderBy(
+        ...(conversationId
+          ? [desc(messages.createdAt)]
+          : [desc(sql`ts_rank(${document}, ${query})`), desc(messages.createdAt)])
+      )
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.message, sender: row.sender }));
+  }
+
+  async getAttachment(attachmentId: string): Promise<(Attachment & { conversationId: string | null }) | undefined> {
+    const [row] = await db
+      .select({
+        attachment: attachments,
+        conversationId: messages.conversationId,
+      })
+      .from(attachments)
+      .innerJoin(messages, eq(attachments.messageId, messages.id))
+      .where(eq(attachments.id, attachmentId));
+
+    return row && { ...row.attachment, conversationId: row.conversationId };
+  }
+
+  async addReaction(messageId: string, userId: string, emoji: ReactionEmoji): Promise<void> {
+    await db
+      .insert(reactions)
+      .values({ messageId, userId, emoji })
+      .onConflictDoNothing();
+  }
+
+  async removeReaction(messageId: string, userId: string, emoji: ReactionEmoji): Promise<void> {
+    await db
+      .delete(reactions)
+      .where(
+        and(
+          eq(reactions.messageId, messageId),
+          eq(reactions.userId, userId),
+          eq(reactions.emoji, emoji)
+        )
+      );
+  }
+
+  async getReactions(messageId: string): Promise<ReactionSummary[]> {
+    return (await this.summarizeReactions([messageId])).get(messageId) ?? [];
+  }
+
+  private async summarizeReactions(messageIds: string[]): Promise<Map<string, ReactionSummary[]>> {
+    const summaries = new Map<string, ReactionSummary[]>();
+    if (messageIds.length === 0) return summaries;
+
+    const rows = await db
+      .select({
+        messageId: reactions.messageId,
+        emoji: reactions.emoji,
+        count: sql<number>`count(*)::int`,
+        userIds: sql<string[]>`array_agg(${reactions.userId} order by ${reactions.createdAt})`,
+      })
+      .from(reactions)
+      .where(inArray(reactions.messageId, messageIds))
+      .groupBy(reactions.messageId, reactions.emoji)
+      .orderBy(sql`min(${reactions.createdAt})`);
+
+    for (const { messageId, ...summary } of rows) {
+      summaries.set(messageId, [...(summaries.get(messageId) ?? []), summary]);
+    }
+    return summaries;
+  }
+
+  // Only translations made by the given provider count; others are replaced
+  // the next time the message is translated
+  async getMessageTranslations(messageIds: string[], targetLanguage: string, provider: string): Promise<MessageTranslation[]> {
+    if (messageIds.length === 0) return [];
+
+    return await db
+      .select()
+      .from(messageTranslations)
+      .where(
+        and(
+          inArray(messageTranslations.messageId, messageIds),
+          eq(messageTranslations.targetLanguage, targetLanguage),
+          eq(messageTranslations.provider, provider)
+        )
+      );
+  }
+
+  async saveMessageTranslation(translation: InsertMessageTranslation): Promise<void> {
+    await db
+      .insert(messageTranslations)
+      .values(translation)
+      .onConflictDoUpdate({
+        target: [messageTranslations.messageId, messageTranslations.targetLanguage],
+        set: {
+          sourceLanguage: translation.sourceLanguage,
+          content: translation.content,
+          provider: translation.provider,
+          createdAt: new Date(),
+        },
+      });
   }
 
   async isUserInConversation(userId: string, conversationId: string): Promise<boolean> {
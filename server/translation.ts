@@ -0,0 +1,203 @@
+import { storage } from "./storage";
+import type { MessageTranslation, MessageWithSender, User } from "@shared/schema";
+
+export interface TranslationResult {
+  content: string;
+  // Language the provider detected the original to be in, if it reports one
+  sourceLanguage?: string;
+}
+
+export interface Translator {
+  // Recorded with cached translations so they can be told apart by provider
+  readonly name: string;
+  // Resolves to null when the text cannot be translated
+  translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<TranslationResult | null>;
+}
+
+// Provider requests in flight at once for a single page of messages
+const TRANSLATION_CONCURRENCY = 6;
+
+type PhraseEntry = Record<string, string>;
+
+// Small built-in phrasebook covering the languages offered in Settings
+const phrasebook: PhraseEntry[] = [
+  { en: "hello", ko: "안녕하세요", ja: "こんにちは", zh: "你好", es: "hola", fr: "bonjour", de: "hallo", ru: "привет" },
+  { en: "hi", ko: "안녕", ja: "やあ", zh: "嗨", es: "hola", fr: "salut", de: "hi", ru: "привет" },
+  { en: "good morning", ko: "좋은 아침이에요", ja: "おはようございます", zh: "早上好", es: "buenos días", fr: "bonjour", de: "guten morgen", ru: "доброе утро" },
+  { en: "good night", ko: "잘 자요", ja: "おやすみなさい", zh: "晚安", es: "buenas noches", fr: "bonne nuit", de: "gute nacht", ru: "спокойной ночи" },
+  { en: "how are you", ko: "잘 지내세요", ja: "お元気ですか", zh: "你好吗", es: "cómo estás", fr: "comment ça va", de: "wie geht es dir", ru: "как дела" },
+  { en: "thank you", ko: "감사합니다", ja: "ありがとうございます", zh: "谢谢", es: "gracias", fr: "merci", de: "danke", ru: "спасибо" },
+  { en: "thanks", ko: "고마워요", ja: "ありがとう", zh: "谢谢", es: "gracias", fr: "merci", de: "danke", ru: "спасибо" },
+  { en: "sorry", ko: "죄송합니다", ja: "すみません", zh: "对不起", es: "lo siento", fr: "désolé", de: "entschuldigung", ru: "извините" },
+  { en: "yes", ko: "네", ja: "はい", zh: "是", es: "sí", fr: "oui", de: "ja", ru: "да" },
+  { en: "no", ko: "아니요", ja: "いいえ", zh: "不", es: "no", fr: "non", de: "nein", ru: "нет" },
+  { en: "okay", ko: "알겠어요", ja: "わかりました", zh: "好的", es: "vale", fr: "d'accord", de: "okay", ru: "хорошо" },
+  { en: "goodbye", ko: "안녕히 가세요", ja: "さようなら", zh: "再见", es: "adiós", fr: "au revoir", de: "auf wiedersehen", ru: "до свидания" },
+  { en: "see you later", ko: "나중에 봐요", ja: "また後で", zh: "回头见", es: "hasta luego", fr: "à plus tard", de: "bis später", ru: "до встречи" },
+  { en: "welcome", ko: "환영합니다", ja: "ようこそ", zh: "欢迎", es: "bienvenido", fr: "bienvenue", de: "willkommen", ru: "добро пожаловать" },
+  { en: "congratulations", ko: "축하해요", ja: "おめでとう", zh: "恭喜", es: "felicidades", fr: "félicitations", de: "glückwunsch", ru: "поздравляю" },
+  { en: "today", ko: "오늘", ja: "今日", zh: "今天", es: "hoy", fr: "aujourd'hui", de: "heute", ru: "сегодня" },
+  { en: "tomorrow", ko: "내일", ja: "明日", zh: "明天", es: "mañana", fr: "demain", de: "morgen", ru: "завтра" },
+  { en: "meeting", ko: "회의", ja: "会議", zh: "会议", es: "reunión", fr: "réunion", de: "besprechung", ru: "встреча" },
+  { en: "friend", ko: "친구", ja: "友達", zh: "朋友", es: "amigo", fr: "ami", de: "freund", ru: "друг" },
+  { en: "lunch", ko: "점심", ja: "昼ご飯", zh: "午饭", es: "almuerzo", fr: "déjeuner", de: "mittagessen", ru: "обед" },
+];
+
+const trailingPunctuation = /[\s.!?,~。！？、]+$/;
+
+function normalize(text: string) {
+  return text.trim().replace(trailingPunctuation, "").toLowerCase();
+}
+
+// Offline translator backed by the phrasebook. Only messages that are a known
+// phrase as a whole are translated; swapping single words would produce
+// mixed-language text.
+export class DictionaryTranslator implements Translator {
+  readonly name = "dictionary";
+  // Normalized phrase -> entry and the language the phrase is written in
+  private index = new Map<string, { entry: PhraseEntry; language: string }>();
+
+  constructor(entries: PhraseEntry[] = phrasebook) {
+    for (const entry of entries) {
+      for (const [language, phrase] of Object.entries(entry)) {
+        const key = normalize(phrase);
+        if (!this.index.has(key)) {
+          this.index.set(key, { entry, language });
+        }
+      }
+    }
+  }
+
+  async translate(text: string, targetLanguage: string): Promise<TranslationResult | null> {
+    const punctuation = text.trim().match(trailingPunctuation)?.[0] ?? "";
+
+    const phraseMatch = this.index.get(normalize(text));
+    if (!phraseMatch?.entry[targetLanguage]) return null;
+    return {
+      content: phraseMatch.entry[targetLanguage] + punctuation,
+      sourceLanguage: phraseMatch.language,
+    };
+  }
+}
+
+// Client for a LibreTranslate-compatible HTTP API
+export class HttpTranslator implements Translator {
+  readonly name = "http";
+
+  constructor(
+    private endpoint: string,
+    private apiKey?: string,
+    private timeoutMs = 5000,
+  ) {}
+
+  async translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<TranslationResult | null> {
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        q: text,
+        source: sourceLanguage ?? "auto",
+        target: targetLanguage,
+        format: "text",
+        api_key: this.apiKey,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Translation provider responded with ${response.status}`);
+    }
+
+    const body = await response.json();
+    if (typeof body.translatedText !== "string") return null;
+    return {
+      content: body.translatedText,
+      sourceLanguage: body.detectedLanguage?.language ?? sourceLanguage,
+    };
+  }
+}
+
+export function createTranslator(): Translator {
+  if (process.env.TRANSLATION_API_URL) {
+    return new HttpTranslator(process.env.TRANSLATION_API_URL, process.env.TRANSLATION_API_KEY);
+  }
+  return new DictionaryTranslator();
+}
+
+export class TranslationService {
+  constructor(private translator: Translator) {}
+
+  // Attach translations to text messages, serving from the cache table when
+  // possible. Messages already in the target language are left alone, and
+  // translation failures never block delivery of the original.
+  async translateMessages<T extends MessageWithSender>(messages: T[], targetLanguage: string): Promise<T[]> {
+    const candidates = messages.filter(
+      message => message.type === "text" && !!message.content && !message.deletedAt && message.language !== targetLanguage,
+    );
+    if (candidates.length === 0) return messages;
+
+    const cached = await storage.getMessageTranslations(
+      candidates.map(m => m.id),
+      targetLanguage,
+      this.translator.name,
+    );
+    const translations = new Map<string, Pick<MessageTranslation, "sourceLanguage" | "content">>(
+      cached.map(t => [t.messageId, t]),
+    );
+
+    // A page can hold dozens of misses, so a few workers share them rather
+    // than sending every request to the provider at once. Messages the
+    // provider cannot translate are saved without content so later page
+    // loads don't ask again; errors are not saved and are retried next time.
+    const misses = candidates.filter(message => !translations.has(message.id));
+    const translateNext = async () => {
+      for (let message = misses.shift(); message; message = misses.shift()) {
+        try {
+          const result = await this.translator.translate(
+            message.content,
+            targetLanguage,
+            message.language ?? undefined,
+          );
+          const translation = {
+            messageId: message.id,
+            targetLanguage,
+            sourceLanguage: result?.sourceLanguage ?? message.language,
+            content: result?.content ?? null,
+            provider: this.translator.name,
+          };
+          await storage.saveMessageTranslation(translation);
+          translations.set(message.id, translation);
+        } catch (error) {
+          console.error("Error translating message:", error);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(TRANSLATION_CONCURRENCY, misses.length) }, translateNext));
+
+    return messages.map(message => {
+      const translation = translations.get(message.id);
+      if (!translation?.content || translation.content === message.content) return message;
+      return {
+        ...message,
+        translation: {
+          language: targetLanguage,
+          sourceLanguage: translation.sourceLanguage,
+          content: translation.content,
+        },
+      };
+    });
+  }
+
+  // Apply a reader's auto-translate preference; their own messages stay as written
+  async localizeForUser<T extends MessageWithSender>(messages: T[], user: User | undefined): Promise<T[]> {
+    if (!user?.autoTranslate || !user.translateToLanguage) return messages;
+
+    const others = messages.filter(message => message.senderId !== user.id);
+    const translated = new Map(
+      (await this.translateMessages(others, user.translateToLanguage)).map(m => [m.id, m]),
+    );
+    return messages.map(message => translated.get(message.id) ?? message);
+  }
+}
+
+export const translationService = new TranslationService(createTranslator());
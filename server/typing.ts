@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { connections, type ConnectionRegistry } from "./connections";
+import { memberships, type MembershipCache } from "./membership";
+
+// Who is typing where. Clients repeat `typing` frames while the user keeps
+// typing; a user who goes quiet without sending a stop frame (closed tab,
+// lost connection) is expired after the timeout.
+export class TypingService {
+  // conversationId -> userId -> expiry timer
+  private typing = new Map<string, Map<string, NodeJS.Timeout>>();
+
+  constructor(
+    private registry: ConnectionRegistry,
+    private members: MembershipCache,
+    private expiryMs = 6_000,
+  ) {}
+
+  async setTyping(conversationId: string, userId: string, isTyping: boolean) {
+    // Straight from the client's frame; skip the lookup for anything malformed
+    if (!z.string().uuid().safeParse(conversationId).success) return;
+    if (!isTyping) {
+      await this.stop(conversationId, userId);
+      return;
+    }
+    if (!(await this.members.isMember(conversationId, userId))) return;
+
+    let users = this.typing.get(conversationId);
+    if (!users) {
+      users = new Map();
+      this.typing.set(conversationId, users);
+    }
+    clearTimeout(users.get(userId));
+    const timer = setTimeout(() => {
+      this.stop(conversationId, userId).catch(error => {
+        console.error("Error expiring typing state:", error);
+      });
+    }, this.expiryMs);
+    timer.unref();
+    users.set(userId, timer);
+
+    // Re-sent on every refresh so members who open the chat late catch up
+    await this.broadcast(conversationId, userId, true);
+  }
+
+  // Called when the user sends a message or their last connection closes
+  async stop(conversationId: string, userId: string) {
+    const users = this.typing.get(conversationId);
+    const timer = users?.get(userId);
+    if (!users || !timer) return;
+
+    clearTimeout(timer);
+    users.delete(userId);
+    if (users.size === 0) {
+      this.typing.delete(conversationId);
+    }
+    await this.broadcast(conversationId, userId, false);
+  }
+
+  async stopAll(userId: string) {
+    for (const conversationId of Array.from(this.typing.keys())) {
+      await this.stop(conversationId, userId);
+    }
+  }
+
+  private async broadcast(conversationId: string, userId: string, isTyping: boolean) {
+    const memberIds = await this.members.getMemberIds(conversationId);
+    this.registry.sendToUsers(
+      Array.from(memberIds).filter(id => id !== userId),
+      { type: 'typing', conversationId, userId, isTyping },
+    );
+  }
+}
+
+export const typing = new TypingService(connections, memberships);
@@ -0,0 +1,33 @@
+// Upload limits shared by the upload route and the composer
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const imageTypes = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+const documentTypes = [
+  "application/pdf",
+  "text/plain",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+];
+
+export const ATTACHMENT_MIME_TYPES: readonly string[] = [...imageTypes, ...documentTypes];
+
+export function isAllowedAttachmentType(mimeType: string): boolean {
+  return ATTACHMENT_MIME_TYPES.includes(mimeType);
+}
+
+// Images are shown inline as thumbnails; everything else as a file card
+export function isImageAttachment(mimeType: string): boolean {
+  return imageTypes.includes(mimeType);
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,42 @@
+import type { Participant, ParticipantRole } from "./schema";
+
+export type GroupAction =
+  | "add_members"
+  | "remove_members"
+  | "edit_info"
+  | "change_roles";
+
+const roleRank: Record<ParticipantRole, number> = {
+  member: 0,
+  admin: 1,
+  owner: 2,
+};
+
+// Minimum role needed for each group management action
+const requiredRole: Record<GroupAction, ParticipantRole> = {
+  add_members: "admin",
+  remove_members: "admin",
+  edit_info: "admin",
+  change_roles: "owner",
+};
+
+export function hasPermission(role: ParticipantRole | undefined, action: GroupAction): boolean {
+  if (!role) return false;
+  return roleRank[role] >= roleRank[requiredRole[action]];
+}
+
+// Members can only be removed by someone ranked strictly above them
+export function canRemoveParticipant(actorRole: ParticipantRole | undefined, targetRole: ParticipantRole): boolean {
+  return hasPermission(actorRole, "remove_members") && roleRank[actorRole!] > roleRank[targetRole];
+}
+
+// Successor when the owner leaves: the longest-standing admin, else the
+// longest-standing member
+export function pickNextOwner<T extends Pick<Participant, "role" | "joinedAt">>(
+  candidates: T[],
+): T | undefined {
+  const byJoinDate = [...candidates].sort(
+    (a, b) => new Date(a.joinedAt ?? 0).getTime() - new Date(b.joinedAt ?? 0).getTime(),
+  );
+  return byJoinDate.find(p => p.role === "admin") ?? byJoinDate[0];
+}
@@ -8,8 +8,12 @@ import {
   serial,
   boolean,
   uuid,
+  unique,
+  primaryKey,
+  integer,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -34,6 +38,7 @@ export const users = pgTable("users", {
   preferredLanguage: varchar("preferred_language").default("ko"),
   autoTranslate: boolean("auto_translate").default(false),
   translateToLanguage: varchar("translate_to_language").default("en"),
+  lastSeenAt: timestamp("last_seen_at"), // when the user's last connection closed
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -42,6 +47,8 @@ export const users = pgTable("users", {
 export const conversations = pgTable("conversations", {
   id: uuid("id").primaryKey().defaultRandom(),
   name: varchar("name"), // null for 1:1 chats, set for group chats
+  description: text("description"),
+  avatarUrl: varchar("avatar_url"),
   isGroup: boolean("is_group").default(false),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
@@ -49,21 +56,127 @@ export const conversations = pgTable("conversations", {
 });
 
 // Participants table (many-to-many relationship between users and conversations)
-export const participants = pgTable("participants", {
-  id: serial("id").primaryKey(),
-  conversationId: uuid("conversation_id").references(() => conversations.id),
-  userId: varchar("user_id").references(() => users.id),
-  joinedAt: timestamp("joined_at").defaultNow(),
-});
+export const participants = pgTable(
+  "participants",
+  {
+    id: serial("id").primaryKey(),
+    conversationId: uuid("conversation_id").references(() => conversations.id),
+    userId: varchar("user_id").references(() => users.id),
+    role: varchar("role").$type<ParticipantRole>().notNull().default("member"),
+    joinedAt: timestamp("joined_at").defaultNow(),
+    hiddenAt: timestamp("hidden_at"), // set when a user hides a 1:1 chat; cleared by new messages
+    lastReadMessageId: uuid("last_read_message_id").references(() => messages.id, { onDelete: "set null" }),
+    lastReadAt: timestamp("last_read_at"), // createdAt of the last read message, used to compare positions
+  },
+  (table) => [unique("participants_conversation_user_unique").on(table.conversationId, table.userId)],
+);
 
 // Messages table
-export const messages = pgTable("messages", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  conversationId: uuid("conversation_id").references(() => conversations.id),
-  senderId: varchar("sender_id").references(() => users.id),
-  content: text("content").notNull(),
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const messages = pgTable(
+  "messages",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    conversationId: uuid("conversation_id").references(() => conversations.id),
+    senderId: varchar("sender_id").references(() => users.id),
+    content: text("content").notNull(),
+    type: varchar("type").$type<MessageType>().notNull().default("text"),
+    metadata: jsonb("metadata").$type<SystemMessageMetadata>(), // set for system messages
+    language: varchar("language"), // detected ISO 639-1 code; null when undetermined
+    replyToId: uuid("reply_to_id").references((): AnyPgColumn => messages.id),
+    editedAt: timestamp("edited_at"),
+    deletedAt: timestamp("deleted_at"), // soft delete; content is cleared
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    // Keyset pagination walks each conversation in (createdAt, id) order
+    index("IDX_messages_conversation_created").on(table.conversationId, table.createdAt, table.id),
+    // Word search; 'simple' keeps tokens unstemmed so it works for every language
+    index("IDX_messages_content_fts").using("gin", sql`to_tsvector('simple', ${table.content})`),
+    // Substring search for languages that attach particles to words, such as
+    // Korean. Requires the pg_trgm extension.
+    index("IDX_messages_content_trgm").using("gin", table.content.op("gin_trgm_ops")),
+  ],
+);
+
+// Previous versions of edited messages, newest last
+export const messageEdits = pgTable(
+  "message_edits",
+  {
+    id: serial("id").primaryKey(),
+    messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+    previousContent: text("previous_content").notNull(),
+    editedAt: timestamp("edited_at").defaultNow(),
+  },
+  (table) => [index("IDX_message_edits_message").on(table.messageId)],
+);
+
+// Files sent with a message. The bytes live in file storage under storageKey.
+export const attachments = pgTable(
+  "attachments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+    storageKey: varchar("storage_key").notNull(),
+    fileName: varchar("file_name").notNull(),
+    mimeType: varchar("mime_type").notNull(),
+    size: integer("size").notNull(), // bytes
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_attachments_message").on(table.messageId)],
+);
+
+// One row per user and emoji on a message
+export const reactions = pgTable(
+  "reactions",
+  {
+    id: serial("id").primaryKey(),
+    messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    emoji: varchar("emoji").$type<ReactionEmoji>().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("reactions_message_user_emoji_unique").on(table.messageId, table.userId, table.emoji),
+    index("IDX_reactions_message").on(table.messageId),
+  ],
+);
+
+// Cached machine translations, one row per message and target language. A
+// null `content` records that the provider had no translation for it.
+export const messageTranslations = pgTable(
+  "message_translations",
+  {
+    messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+    targetLanguage: varchar("target_language").notNull(),
+    sourceLanguage: varchar("source_language"),
+    content: text("content"),
+    provider: varchar("provider").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.messageId, table.targetLanguage] })],
+);
+
+export const participantRoleSchema = z.enum(["owner", "admin", "member"]);
+
+export const messageTypeSchema = z.enum(["text", "system"]);
+
+// The reactions offered by the picker
+export const reactionEmojiSchema = z.enum(["👍", "❤️", "😂", "😮", "😢", "🙏"]);
+
+// Structured payload of a system message; `content` holds a plain-text fallback
+export const systemMessageMetadataSchema = z.discriminatedUnion("event", [
+  z.object({ event: z.literal("participant_left"), userId: z.string() }),
+  // userName snapshots the target's display name so clients can render the
+  // event in their own language without looking the user up
+  z.object({ event: z.literal("participant_added"), userId: z.string(), userName: z.string().optional(), addedBy: z.string() }),
+  z.object({ event: z.literal("participant_removed"), userId: z.string(), userName: z.string().optional(), removedBy: z.string() }),
+  z.object({ event: z.literal("role_changed"), userId: z.string(), userName: z.string().optional(), role: participantRoleSchema }),
+  z.object({
+    event: z.literal("conversation_updated"),
+    changes: z.array(z.enum(["name", "description", "avatarUrl"])),
+    name: z.string().optional(),
+  }),
+]);
 
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
@@ -92,7 +205,7 @@ export const participantsRelations = relations(participants, ({ one }) => ({
   }),
 }));
 
-export const messagesRelations = relations(messages, ({ one }) => ({
+export const messagesRelations = relations(messages, ({ one, many }) => ({
   conversation: one(conversations, {
     fields: [messages.conversationId],
     references: [conversations.id],
@@ -101,6 +214,26 @@ export const messagesRelations = relations(messages, ({ one }) => ({
     fields: [messages.senderId],
     references: [users.id],
   }),
+  attachments: many(attachments),
+  reactions: many(reactions),
+}));
+
+export const reactionsRelations = relations(reactions, ({ one }) => ({
+  message: one(messages, {
+    fields: [reactions.messageId],
+    references: [messages.id],
+  }),
+  user: one(users, {
+    fields: [reactions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  message: one(messages, {
+    fields: [attachments.messageId],
+    references: [messages.id],
+  }),
 }));
 
 // Schemas
@@ -110,12 +243,20 @@ export const insertConversationSchema = createInsertSchema(conversations).omit({
   updatedAt: true,
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertMessageSchema = createInsertSchema(messages, {
+  type: messageTypeSchema.optional(),
+  metadata: systemMessageMetadataSchema.nullish(),
+}).omit({
   id: true,
+  language: true,
+  editedAt: true,
+  deletedAt: true,
   createdAt: true,
 });
 
-export const insertParticipantSchema = createInsertSchema(participants).omit({
+export const insertParticipantSchema = createInsertSchema(participants, {
+  role: participantRoleSchema.optional(),
+}).omit({
   id: true,
   joinedAt: true,
 });
@@ -126,16 +267,79 @@ export const updateUserSettingsSchema = z.object({
   translateToLanguage: z.string().optional(),
 });
 
+export const updateMessageSchema = z.object({
+  content: z.string().trim().min(1),
+});
+
+// A message from the composer. The client picks the id, so a send that is
+// retried after a lost response is recognised rather than posted twice.
+export const sendMessageSchema = insertMessageSchema
+  .pick({ content: true, replyToId: true })
+  .extend({ id: z.string().uuid().optional() });
+
+// Text fields sent alongside an uploaded file
+export const sendAttachmentSchema = z.object({
+  content: z.string().trim().default(""), // optional caption
+  replyToId: z.string().uuid().optional(),
+});
+
+// Paging through a conversation's history. At most one cursor may be given;
+// with none, the newest page is returned.
+export const messagePageQuerySchema = z
+  .object({
+    before: z.string().uuid().optional(),
+    after: z.string().uuid().optional(),
+    around: z.string().uuid().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+  })
+  .refine(
+    (query) => [query.before, query.after, query.around].filter(Boolean).length <= 1,
+    { message: "Only one of before, after and around may be given" },
+  );
+
+export const messageSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  // Restricts the search to one conversation, newest matches first
+  conversationId: z.string().uuid().optional(),
+});
+
+// Group avatars are loaded by every member's browser, so only https images
+// are accepted (no javascript:, data: or plain http: URLs)
+export const avatarUrlSchema = z
+  .string()
+  .url()
+  .refine(url => new URL(url).protocol === "https:", { message: "Avatar URL must use https" });
+
+export const updateConversationSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  avatarUrl: avatarUrlSchema.nullable().optional(),
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Message = typeof messages.$inferSelect;
+export type MessageType = z.infer<typeof messageTypeSchema>;
+export type SystemMessageMetadata = z.infer<typeof systemMessageMetadataSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type UpdateMessage = z.infer<typeof updateMessageSchema>;
+export type MessageEdit = typeof messageEdits.$inferSelect;
 export type Participant = typeof participants.$inferSelect;
 export type InsertParticipant = z.infer<typeof insertParticipantSchema>;
+export type ParticipantRole = z.infer<typeof participantRoleSchema>;
 export type UpdateUserSettings = z.infer<typeof updateUserSettingsSchema>;
+export type UpdateConversation = z.infer<typeof updateConversationSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = Omit<typeof attachments.$inferInsert, "id" | "messageId" | "createdAt">;
+export type ReactionEmoji = z.infer<typeof reactionEmojiSchema>;
+export type MessagePageQuery = z.infer<typeof messagePageQuerySchema>;
+export type MessageSearchQuery = z.infer<typeof messageSearchQuerySchema>;
+export type MessageTranslation = typeof messageTranslations.$inferSelect;
+export type InsertMessageTranslation = typeof messageTranslations.$inferInsert;
 
 // Extended types for API responses
 export type ConversationWithParticipants = Conversation & {
@@ -144,6 +348,44 @@ export type ConversationWithParticipants = Conversation & {
   unreadCount?: number;
 };
 
+export type UserPresence = {
+  userId: string;
+  online: boolean;
+  lastSeenAt: Date | null;
+};
+
+// Reactions to a message grouped by emoji, in the order they were first used
+export type ReactionSummary = {
+  emoji: ReactionEmoji;
+  count: number;
+  userIds: string[];
+};
+
+// Quoted parent of a reply. Parents that no longer exist keep only their id.
+export type ReplyPreview = {
+  id: string;
+  sender: Pick<User, "id" | "firstName" | "lastName" | "email"> | null;
+  snippet: string | null;
+  deleted: boolean;
+};
+
 export type MessageWithSender = Message & {
   sender: User;
+  replyTo?: ReplyPreview;
+  attachments?: Attachment[];
+  reactions?: ReactionSummary[];
+  // Present when the message was translated for the requesting user
+  translation?: {
+    language: string;
+    sourceLanguage: string | null;
+    content: string;
+  };
+};
+
+// A search hit: the message plus an excerpt around the match. Highlights are
+// [start, end) offsets into the snippet.
+export type MessageSearchResult = {
+  message: MessageWithSender;
+  snippet: string;
+  highlights: [number, number][];
 };
@@ -0,0 +1,29 @@
+// Lowercased, de-duplicated words of a search query
+export function getSearchTerms(query: string): string[] {
+  const terms = query.toLowerCase().replace(/["']/g, " ").split(/\s+/).filter(term => term.length > 0);
+  return Array.from(new Set(terms));
+}
+
+// [start, end) ranges of every case-insensitive occurrence of the terms,
+// sorted and merged so they can be rendered in one pass
+export function findMatchRanges(text: string, terms: string[]): [number, number][] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let index = lower.indexOf(term); index >= 0; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}